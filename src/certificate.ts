@@ -0,0 +1,315 @@
+import { connect } from 'cloudflare:sockets';
+import type { CertificateInfo, CertificateState, MonitorConfig } from './types';
+import { untilAborted } from './protocol-probes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stop reading the handshake after this many bytes even if no certificate arrived
+const MAX_HANDSHAKE_BYTES = 64 * 1024;
+
+const TLS_RECORD_HANDSHAKE = 22;
+const TLS_RECORD_ALERT = 21;
+const TLS_HANDSHAKE_CERTIFICATE = 11;
+const TLS_HANDSHAKE_SERVER_HELLO_DONE = 14;
+const TLS_ALERT_PROTOCOL_VERSION = 70;
+
+const CIPHER_SUITES = [0xc02b, 0xc02f, 0xc02c, 0xc030, 0xcca9, 0xcca8, 0x009c, 0x009d, 0x002f, 0x0035];
+const SUPPORTED_GROUPS = [0x001d, 0x0017, 0x0018];
+const SIGNATURE_ALGORITHMS = [0x0403, 0x0503, 0x0603, 0x0804, 0x0805, 0x0806, 0x0401, 0x0501, 0x0601, 0x0201];
+
+const OID_SUBJECT_ALT_NAME = '551d11';
+const NAME_ATTRIBUTES: Record<string, string> = {
+  '550403': 'CN',
+  '550406': 'C',
+  '55040a': 'O',
+  '55040b': 'OU',
+};
+
+export interface CertificateStatus {
+  daysRemaining: number | null;
+  warnThresholdDays: number | null; // Smallest configured threshold already crossed
+}
+
+interface DerElement {
+  tag: number;
+  value: Uint8Array;
+  end: number;
+}
+
+// Days left and the warning threshold reached, from the last certificate read
+export function getCertificateStatus(
+  monitor: MonitorConfig,
+  certificate: CertificateState | null,
+  now: Date = new Date()
+): CertificateStatus {
+  if (!monitor.certificate || !certificate?.info) {
+    return { daysRemaining: null, warnThresholdDays: null };
+  }
+
+  const daysRemaining = Math.floor((new Date(certificate.info.validTo).getTime() - now.getTime()) / DAY_MS);
+  const crossed = monitor.certificate.warnDays.filter(days => daysRemaining <= days);
+  return {
+    daysRemaining,
+    warnThresholdDays: crossed.length > 0 ? Math.min(...crossed) : null,
+  };
+}
+
+// Workers cannot inspect the certificate behind a fetch, so read it from a TLS 1.2
+// handshake, where the Certificate message is still sent in the clear
+export async function fetchCertificate(
+  hostname: string,
+  port: number,
+  serverName: string,
+  signal: AbortSignal
+): Promise<CertificateInfo> {
+  const aborted = untilAborted(signal);
+  const socket = connect({ hostname, port }, { secureTransport: 'off', allowHalfOpen: false });
+
+  try {
+    await Promise.race([socket.opened, aborted]);
+
+    const writer = socket.writable.getWriter();
+    await Promise.race([writer.write(buildClientHello(serverName)), aborted]);
+    writer.releaseLock();
+
+    const reader = socket.readable.getReader();
+    let received: Uint8Array = new Uint8Array(0);
+    let handshake: Uint8Array = new Uint8Array(0);
+    let offset = 0;
+
+    while (true) {
+      // Consume every complete record received so far
+      while (received.length - offset >= 5) {
+        const type = received[offset];
+        const length = (received[offset + 3] << 8) | received[offset + 4];
+        if (received.length - offset - 5 < length) {
+          break;
+        }
+        const fragment = received.subarray(offset + 5, offset + 5 + length);
+        offset += 5 + length;
+
+        if (type === TLS_RECORD_ALERT) {
+          throw new Error(fragment[1] === TLS_ALERT_PROTOCOL_VERSION
+            ? 'Server does not support TLS 1.2, so its certificate cannot be read'
+            : `Server sent TLS alert ${fragment[1]}`);
+        }
+        if (type !== TLS_RECORD_HANDSHAKE) {
+          throw new Error(`Unexpected TLS record type ${type} before the certificate`);
+        }
+
+        handshake = concat(handshake, fragment);
+        const der = findCertificate(handshake);
+        if (der) {
+          return parseCertificate(der);
+        }
+      }
+
+      if (received.length > MAX_HANDSHAKE_BYTES) {
+        throw new Error('No certificate in the first 64KB of the handshake');
+      }
+
+      const { value, done } = await Promise.race([reader.read(), aborted]);
+      if (done) {
+        throw new Error('Connection closed before the certificate was received');
+      }
+      received = concat(received, value);
+    }
+  } finally {
+    socket.close().catch(() => {});
+  }
+}
+
+function buildClientHello(serverName: string): Uint8Array {
+  const extensions: number[] = [];
+  // SNI must be a hostname, never an IP address
+  if (!/^[0-9.]+$/.test(serverName) && !serverName.includes(':')) {
+    const name = Array.from(new TextEncoder().encode(serverName));
+    extensions.push(...extension(0x0000, [...u16(name.length + 3), 0x00, ...u16(name.length), ...name]));
+  }
+  extensions.push(...extension(0x000a, vector16(SUPPORTED_GROUPS)));
+  extensions.push(...extension(0x000b, [0x01, 0x00]));
+  extensions.push(...extension(0x000d, vector16(SIGNATURE_ALGORITHMS)));
+
+  // No supported_versions extension, so the server must answer with TLS 1.2
+  const body = [
+    0x03, 0x03,
+    ...crypto.getRandomValues(new Uint8Array(32)),
+    0x00,
+    ...vector16(CIPHER_SUITES),
+    0x01, 0x00,
+    ...u16(extensions.length), ...extensions,
+  ];
+  const message = [0x01, ...u24(body.length), ...body];
+  return new Uint8Array([TLS_RECORD_HANDSHAKE, 0x03, 0x01, ...u16(message.length), ...message]);
+}
+
+// Returns the leaf certificate once the Certificate message is complete
+function findCertificate(handshake: Uint8Array): Uint8Array | null {
+  let offset = 0;
+  while (offset + 4 <= handshake.length) {
+    const type = handshake[offset];
+    const length = readU24(handshake, offset + 1);
+    if (offset + 4 + length > handshake.length) {
+      return null;
+    }
+
+    if (type === TLS_HANDSHAKE_CERTIFICATE) {
+      const body = handshake.subarray(offset + 4, offset + 4 + length);
+      const certificateLength = readU24(body, 3);
+      return body.subarray(6, 6 + certificateLength);
+    }
+    if (type === TLS_HANDSHAKE_SERVER_HELLO_DONE) {
+      throw new Error('Server did not send a certificate');
+    }
+    offset += 4 + length;
+  }
+  return null;
+}
+
+function parseCertificate(der: Uint8Array): CertificateInfo {
+  const [certificate] = readDerSequence(der);
+  const [tbs] = readDerSequence(certificate.value);
+  const fields = readDerSequence(tbs.value);
+
+  // The version field is optional and tagged [0]
+  const first = fields[0].tag === 0xa0 ? 1 : 0;
+  const issuer = fields[first + 2];
+  const [notBefore, notAfter] = readDerSequence(fields[first + 3].value);
+  const subject = fields[first + 4];
+
+  const subjectAltNames: string[] = [];
+  const extensions = fields.find(field => field.tag === 0xa3);
+  if (extensions) {
+    const [list] = readDerSequence(extensions.value);
+    for (const ext of readDerSequence(list.value)) {
+      const parts = readDerSequence(ext.value);
+      if (toHex(parts[0].value) !== OID_SUBJECT_ALT_NAME) {
+        continue;
+      }
+      const [names] = readDerSequence(parts[parts.length - 1].value);
+      for (const name of readDerSequence(names.value)) {
+        if (name.tag === 0x82) {
+          subjectAltNames.push(new TextDecoder().decode(name.value));
+        } else if (name.tag === 0x87) {
+          subjectAltNames.push(formatIpAddress(name.value));
+        }
+      }
+    }
+  }
+
+  return {
+    subject: formatName(subject),
+    issuer: formatName(issuer),
+    validFrom: parseDerTime(notBefore),
+    validTo: parseDerTime(notAfter),
+    subjectAltNames,
+  };
+}
+
+function readDer(bytes: Uint8Array, offset: number): DerElement {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[start++];
+    }
+  }
+  if (start + length > bytes.length) {
+    throw new Error('Malformed certificate');
+  }
+  return { tag, value: bytes.subarray(start, start + length), end: start + length };
+}
+
+function readDerSequence(bytes: Uint8Array): DerElement[] {
+  const elements: DerElement[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const element = readDer(bytes, offset);
+    elements.push(element);
+    offset = element.end;
+  }
+  return elements;
+}
+
+// e.g. "C=US, O=Let's Encrypt, CN=R3"
+function formatName(name: DerElement): string {
+  const parts: string[] = [];
+  for (const set of readDerSequence(name.value)) {
+    for (const attribute of readDerSequence(set.value)) {
+      const [oid, value] = readDerSequence(attribute.value);
+      const label = NAME_ATTRIBUTES[toHex(oid.value)];
+      if (label) {
+        parts.push(`${label}=${new TextDecoder().decode(value.value)}`);
+      }
+    }
+  }
+  return parts.join(', ');
+}
+
+// UTCTime (tag 0x17, two-digit year) or GeneralizedTime
+function parseDerTime(time: DerElement): string {
+  const text = new TextDecoder().decode(time.value);
+  let year: number;
+  let rest: string;
+  if (time.tag === 0x17) {
+    const shortYear = Number(text.slice(0, 2));
+    year = shortYear >= 50 ? 1900 + shortYear : 2000 + shortYear;
+    rest = text.slice(2);
+  } else {
+    year = Number(text.slice(0, 4));
+    rest = text.slice(4);
+  }
+  return new Date(Date.UTC(
+    year,
+    Number(rest.slice(0, 2)) - 1,
+    Number(rest.slice(2, 4)),
+    Number(rest.slice(4, 6)),
+    Number(rest.slice(6, 8)),
+    Number(rest.slice(8, 10))
+  )).toISOString();
+}
+
+function formatIpAddress(bytes: Uint8Array): string {
+  if (bytes.length === 4) {
+    return Array.from(bytes).join('.');
+  }
+  const groups: string[] = [];
+  for (let i = 0; i < bytes.length; i += 2) {
+    groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  }
+  return groups.join(':');
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+function readU24(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2];
+}
+
+function u16(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function u24(value: number): number[] {
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function vector16(values: number[]): number[] {
+  return [...u16(values.length * 2), ...values.flatMap(u16)];
+}
+
+function extension(type: number, data: number[]): number[] {
+  return [...u16(type), ...u16(data.length), ...data];
+}
@@ -1,153 +1,547 @@
+import type { RedirectTarget, RetryPolicy } from './types';
 import { Logger } from './logger';
 
-export interface RedirectRuleInfo {
+// Phase of single (dynamic) redirect rules
+const REDIRECT_PHASE = 'http_request_dynamic_redirect';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// One entry of the errors[] array in a Cloudflare API response
+export interface CloudflareErrorDetail {
+  code: number;
+  message: string;
+}
+
+export class CloudflareAPIError extends Error {
+  readonly status: number; // HTTP status; 0 when the request never got a response
+  readonly errors: CloudflareErrorDetail[];
+  readonly retryable: boolean;
+
+  constructor(message: string, status: number, errors: CloudflareErrorDetail[] = [], retryable = false) {
+    super(message);
+    this.name = 'CloudflareAPIError';
+    this.status = status;
+    this.errors = errors;
+    this.retryable = retryable;
+  }
+}
+
+// 401: the token is invalid, expired or revoked
+export class CloudflareAuthError extends CloudflareAPIError {
+  constructor(message: string, status: number, errors: CloudflareErrorDetail[] = []) {
+    super(message, status, errors);
+    this.name = 'CloudflareAuthError';
+  }
+}
+
+// 403: the token works but lacks a permission. Also an auth error, since
+// retrying cannot help until the token is fixed.
+export class CloudflarePermissionError extends CloudflareAuthError {
+  constructor(message: string, status: number, errors: CloudflareErrorDetail[] = []) {
+    super(message, status, errors);
+    this.name = 'CloudflarePermissionError';
+  }
+}
+
+// 429
+export class CloudflareRateLimitError extends CloudflareAPIError {
+  readonly retryAfterMs: number | null; // From the Retry-After header
+
+  constructor(message: string, status: number, errors: CloudflareErrorDetail[], retryAfterMs: number | null) {
+    super(message, status, errors, true);
+    this.name = 'CloudflareRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// 404, or a rule, record or origin missing from an otherwise valid response
+export class CloudflareNotFoundError extends CloudflareAPIError {
+  constructor(message: string, status = 404, errors: CloudflareErrorDetail[] = []) {
+    super(message, status, errors);
+    this.name = 'CloudflareNotFoundError';
+  }
+}
+
+// 400 and 422: the request itself was rejected
+export class CloudflareValidationError extends CloudflareAPIError {
+  constructor(message: string, status: number, errors: CloudflareErrorDetail[] = []) {
+    super(message, status, errors);
+    this.name = 'CloudflareValidationError';
+  }
+}
+
+// 5xx, or a network error before any response
+export class CloudflareServerError extends CloudflareAPIError {
+  constructor(message: string, status: number, errors: CloudflareErrorDetail[] = []) {
+    super(message, status, errors, true);
+    this.name = 'CloudflareServerError';
+  }
+}
+
+export interface RedirectRuleInfo extends RedirectTarget {
   id: string;
   enabled: boolean;
   status: string;
   lastModified: string;
 }
 
+export interface RedirectTargetChange {
+  previous: RedirectTarget;
+  updated: RedirectTarget;
+}
+
+// Fields of a redirect rule to change; the others are kept
+export interface RedirectTargetUpdate {
+  expression?: string;
+  targetUrl?: string; // Replaces a dynamic target
+  targetExpression?: string; // Replaces a static target
+  statusCode?: number;
+  preserveQueryString?: boolean;
+}
+
+// A redirect of every request for one hostname to a static target
+export interface NewRedirectRule {
+  hostname: string;
+  targetUrl: string;
+  statusCode: number; // 301, 302, 307 or 308
+  preserveQueryString: boolean;
+  description: string;
+}
+
+export interface DnsRecordInfo {
+  id: string;
+  name: string;
+  type: string;
+  content: string;
+  lastModified: string;
+}
+
+export interface LoadBalancerPoolInfo {
+  id: string;
+  name: string;
+  enabled: boolean;
+  origins: { name: string; address: string; enabled: boolean }[];
+  lastModified: string;
+}
+
 export class CloudflareAPIClient {
   private apiToken: string;
   private logger: Logger;
   private zoneId: string;
   private accountId: string;
+  private retryPolicy: RetryPolicy;
 
-  constructor(apiToken: string, zoneId: string, accountId: string, logger: Logger) {
+  constructor(
+    apiToken: string,
+    zoneId: string,
+    accountId: string,
+    logger: Logger,
+    retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+  ) {
     this.apiToken = apiToken;
     this.zoneId = zoneId;
     this.accountId = accountId;
     this.logger = logger;
+    this.retryPolicy = retryPolicy;
   }
 
-  async getRedirectRule(ruleId: string): Promise<RedirectRuleInfo | null> {
-    try {
-      this.logger.debug(`Fetching redirect rule ${ruleId}`);
-      
-      // Use Cloudflare API to get the ruleset containing the rule
-      const response = await fetch(
-        `https://api.cloudflare.com/client/v4/zones/${this.zoneId}/rulesets/${ruleId}`,
-        {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${this.apiToken}`,
-            'Content-Type': 'application/json',
-          },
+  // Checks the token with the token-verify endpoint. User tokens and account-owned
+  // tokens are verified at different paths, so both are tried.
+  async verifyToken(): Promise<boolean> {
+    for (const path of ['/user/tokens/verify', `/accounts/${this.accountId}/tokens/verify`]) {
+      try {
+        const response = await fetch(`https://api.cloudflare.com/client/v4${path}`, {
+          headers: { 'Authorization': `Bearer ${this.apiToken}` },
+        });
+        if (!response.ok) {
+          continue;
+        }
+        const data: any = await response.json();
+        if (data.result?.status === 'active') {
+          return true;
         }
+        this.logger.warn(`Cloudflare API token status is "${data.result?.status}"`);
+        return false;
+      } catch (error: any) {
+        this.logger.warn('Failed to verify Cloudflare API token', { error: error.message });
+      }
+    }
+    return false;
+  }
+
+  // With a rulesetId, ruleId is a single rule inside it. Without one, ruleId is
+  // treated as a ruleset ID and its first rule is reported (legacy behaviour).
+  // Throws a CloudflareAPIError subclass when the rule cannot be read.
+  async getRedirectRule(ruleId: string, rulesetId: string | null = null): Promise<RedirectRuleInfo> {
+    this.logger.debug(`Fetching redirect rule ${ruleId}`, rulesetId ? { rulesetId } : undefined);
+    
+    // Use Cloudflare API to get the ruleset containing the rule
+    const data = await this.request('GET', `/rulesets/${rulesetId ?? ruleId}`);
+    
+    const rule = rulesetId
+      ? data.result?.rules?.find((candidate: any) => candidate.id === ruleId)
+      : data.result?.rules?.[0];
+    if (!rule) {
+      throw new CloudflareNotFoundError(
+        rulesetId ? `Rule ${ruleId} not found in ruleset ${rulesetId}` : `No rules found in ruleset ${ruleId}`
       );
+    }
+    
+    return toRedirectRuleInfo(rule);
+  }
+
+  // Adds the rule, disabled, to the zone's dynamic redirect ruleset, creating the
+  // ruleset when the zone has none yet. Not retried, since a retry could add it twice.
+  async createRedirectRule(newRule: NewRedirectRule): Promise<{ rulesetId: string; rule: RedirectRuleInfo }> {
+    const rule = {
+      action: 'redirect',
+      action_parameters: {
+        from_value: {
+          status_code: newRule.statusCode,
+          target_url: { value: newRule.targetUrl },
+          preserve_query_string: newRule.preserveQueryString,
+        },
+      },
+      expression: `(http.host eq "${newRule.hostname}")`,
+      description: newRule.description,
+      enabled: false,
+    };
+
+    let rulesetId: string | null = null;
+    try {
+      const entrypoint = await this.request('GET', `/rulesets/phases/${REDIRECT_PHASE}/entrypoint`);
+      rulesetId = entrypoint.result.id;
+    } catch (error) {
+      if (!(error instanceof CloudflareNotFoundError)) {
+        throw error;
+      }
+    }
+
+    this.logger.info(`Creating redirect rule for ${newRule.hostname}`, { rulesetId });
+    const data = rulesetId
+      ? await this.request('POST', `/rulesets/${rulesetId}/rules`, rule)
+      : await this.request('POST', '/rulesets', {
+          name: 'default',
+          kind: 'zone',
+          phase: REDIRECT_PHASE,
+          rules: [rule],
+        });
+
+    // New rules are appended to the end of the ruleset
+    const rules: any[] = data.result?.rules ?? [];
+    if (rules.length === 0) {
+      throw new CloudflareNotFoundError('Created redirect rule missing from the ruleset response');
+    }
+    return { rulesetId: data.result.id, rule: toRedirectRuleInfo(rules[rules.length - 1]) };
+  }
+
+  async updateRedirectRule(ruleId: string, enabled: boolean, rulesetId: string | null = null): Promise<boolean> {
+    if (!rulesetId) {
+      this.logger.warn(
+        `No ruleset ID configured, so every rule in ruleset ${ruleId} is toggled. Set RULESET_ID (or rulesetId) to update only the redirect rule.`
+      );
+    }
+
+    return await this.withRetries(`${enabled ? 'enable' : 'disable'} redirect rule`, async () => {
+      if (rulesetId) {
+        await this.updateSingleRule(rulesetId, ruleId, enabled);
+      } else {
+        await this.updateWholeRuleset(ruleId, enabled);
+      }
+    });
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  // Changes which requests the rule matches and where it sends them, keeping its enabled
+  // state. Returns the target before and after, or null once retries are exhausted.
+  async updateRedirectTarget(
+    ruleId: string,
+    rulesetId: string,
+    update: RedirectTargetUpdate
+  ): Promise<RedirectTargetChange | null> {
+    let result: RedirectTargetChange | null = null;
+    const success = await this.withRetries(`update target of redirect rule ${ruleId}`, async () => {
+      const rulesetData = await this.request('GET', `/rulesets/${rulesetId}`);
+      const rule = rulesetData.result?.rules?.find((candidate: any) => candidate.id === ruleId);
+      if (!rule) {
+        throw new CloudflareNotFoundError(`Rule ${ruleId} not found in ruleset ${rulesetId}`);
       }
 
-      const data: any = await response.json();
-      
-      // The ruleset contains an array of rules - we need to check the first rule's enabled status
-      if (!data.result?.rules || data.result.rules.length === 0) {
-        this.logger.warn('No rules found in ruleset');
-        return null;
+      const fromValue = { ...rule.action_parameters?.from_value };
+      if (update.targetUrl !== undefined) {
+        fromValue.target_url = { value: update.targetUrl };
+      } else if (update.targetExpression !== undefined) {
+        fromValue.target_url = { expression: update.targetExpression };
+      }
+      if (update.statusCode !== undefined) {
+        fromValue.status_code = update.statusCode;
+      }
+      if (update.preserveQueryString !== undefined) {
+        fromValue.preserve_query_string = update.preserveQueryString;
       }
-      
-      const rule = data.result.rules[0];
-      
-      return {
-        id: rule.id,
-        enabled: rule.enabled === true,
-        status: rule.enabled ? 'active' : 'inactive',
-        lastModified: rule.last_updated || new Date().toISOString(),
+
+      const patched = {
+        action: rule.action,
+        action_parameters: { ...rule.action_parameters, from_value: fromValue },
+        expression: update.expression ?? rule.expression,
+        description: rule.description,
+        enabled: rule.enabled,
       };
-    } catch (error: any) {
-      this.logger.error('Failed to fetch redirect rule', { error: error.message });
-      return null;
+      const data = await this.request('PATCH', `/rulesets/${rulesetId}/rules/${ruleId}`, patched);
+      // The response holds the whole ruleset; fall back to what was sent
+      const updated = data.result?.rules?.find((candidate: any) => candidate.id === ruleId) ?? { ...rule, ...patched };
+      result = { previous: toRedirectTarget(rule), updated: toRedirectTarget(updated) };
+    });
+    return success ? result : null;
+  }
+
+  async getDnsRecord(recordId: string): Promise<DnsRecordInfo> {
+    this.logger.debug(`Fetching DNS record ${recordId}`);
+    const data = await this.request('GET', `/dns_records/${recordId}`);
+    return {
+      id: data.result.id,
+      name: data.result.name,
+      type: data.result.type,
+      content: data.result.content,
+      lastModified: data.result.modified_on,
+    };
+  }
+
+  async updateDnsRecord(recordId: string, content: string): Promise<boolean> {
+    return await this.withRetries(`set DNS record ${recordId} to ${content}`, async () => {
+      await this.request('PATCH', `/dns_records/${recordId}`, { content });
+    });
+  }
+
+  async getLoadBalancerPool(poolId: string): Promise<LoadBalancerPoolInfo> {
+    this.logger.debug(`Fetching load balancer pool ${poolId}`);
+    const data = await this.accountRequest('GET', `/load_balancers/pools/${poolId}`);
+    return {
+      id: data.result.id,
+      name: data.result.name,
+      enabled: data.result.enabled === true,
+      origins: (data.result.origins ?? []).map((origin: any) => ({
+        name: origin.name,
+        address: origin.address,
+        enabled: origin.enabled !== false,
+      })),
+      lastModified: data.result.modified_on,
+    };
+  }
+
+  // Enables or disables the whole pool, or only the named origin in it
+  async updateLoadBalancerPool(poolId: string, enabled: boolean, originName: string | null = null): Promise<boolean> {
+    const target = originName ? `origin ${originName} of pool ${poolId}` : `pool ${poolId}`;
+    return await this.withRetries(`${enabled ? 'enable' : 'disable'} load balancer ${target}`, async () => {
+      if (!originName) {
+        await this.accountRequest('PATCH', `/load_balancers/pools/${poolId}`, { enabled });
+        return;
+      }
+
+      const data = await this.accountRequest('GET', `/load_balancers/pools/${poolId}`);
+      const origins: any[] = data.result?.origins ?? [];
+      if (!origins.some(origin => origin.name === originName)) {
+        throw new CloudflareNotFoundError(`Origin ${originName} not found in pool ${poolId}`);
+      }
+      await this.accountRequest('PATCH', `/load_balancers/pools/${poolId}`, {
+        origins: origins.map(origin => (origin.name === originName ? { ...origin, enabled } : origin)),
+      });
+    });
+  }
+
+  // PATCH only the one rule, leaving the rest of the ruleset untouched. The API takes the
+  // whole rule definition, so it is read first and sent back right away with only
+  // enabled changed.
+  private async updateSingleRule(rulesetId: string, ruleId: string, enabled: boolean): Promise<void> {
+    const rulesetData = await this.request('GET', `/rulesets/${rulesetId}`);
+    const rule = rulesetData.result?.rules?.find((candidate: any) => candidate.id === ruleId);
+    if (!rule) {
+      throw new CloudflareNotFoundError(`Rule ${ruleId} not found in ruleset ${rulesetId}`);
     }
+
+    await this.request('PATCH', `/rulesets/${rulesetId}/rules/${ruleId}`, {
+      action: rule.action,
+      action_parameters: rule.action_parameters,
+      expression: rule.expression,
+      description: rule.description,
+      enabled,
+    });
   }
 
-  async updateRedirectRule(ruleId: string, enabled: boolean): Promise<boolean> {
-    let lastError: any = null;
+  private async updateWholeRuleset(rulesetId: string, enabled: boolean): Promise<void> {
+    // Get the current ruleset first
+    const rulesetData = await this.request('GET', `/rulesets/${rulesetId}`);
     
-    // Retry logic: up to 3 times with exponential backoff
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      try {
-        this.logger.info(`Attempting to ${enabled ? 'enable' : 'disable'} redirect rule (attempt ${attempt}/3)`);
-        
-        // Get the current ruleset first
-        const getRulesetResponse = await fetch(
-          `https://api.cloudflare.com/client/v4/zones/${this.zoneId}/rulesets/${ruleId}`,
-          {
-            method: 'GET',
-            headers: {
-              'Authorization': `Bearer ${this.apiToken}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
-
-        if (!getRulesetResponse.ok) {
-          const status = getRulesetResponse.status;
-          if (status === 401 || status === 403) {
-            this.logger.error('Critical: Cloudflare API authentication failed. Disabling further API calls.', {
-              status,
-            });
-            throw new Error('AUTHENTICATION_FAILED');
-          }
-          throw new Error(`HTTP ${status}: ${getRulesetResponse.statusText}`);
-        }
+    // Update the ruleset with modified rules
+    await this.request('PUT', `/rulesets/${rulesetId}`, {
+      rules: rulesetData.result.rules.map((rule: any) => ({
+        ...rule,
+        enabled,
+      })),
+    });
+  }
 
-        const rulesetData: any = await getRulesetResponse.json();
-        
-        // Update the ruleset with modified rules
-        const updateResponse = await fetch(
-          `https://api.cloudflare.com/client/v4/zones/${this.zoneId}/rulesets/${ruleId}`,
-          {
-            method: 'PUT',
-            headers: {
-              'Authorization': `Bearer ${this.apiToken}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              rules: rulesetData.result.rules.map((rule: any) => ({
-                ...rule,
-                enabled,
-              })),
-            }),
-          }
-        );
-
-        if (!updateResponse.ok) {
-          const status = updateResponse.status;
-          if (status === 401 || status === 403) {
-            this.logger.error('Critical: Cloudflare API authentication failed. Disabling further API calls.', {
-              status,
-            });
-            throw new Error('AUTHENTICATION_FAILED');
-          }
-          throw new Error(`HTTP ${status}: ${updateResponse.statusText}`);
-        }
+  // Retries 429s, server errors and network failures with exponential backoff and
+  // jitter, waiting at least as long as Retry-After asks. Returns false once retries
+  // are exhausted; other CloudflareAPIErrors (auth, not found, ...) are rethrown.
+  private async withRetries(description: string, operation: () => Promise<void>): Promise<boolean> {
+    const { maxAttempts, baseDelayMs, maxDelayMs } = this.retryPolicy;
+    let lastError: any = null;
 
-        this.logger.info(`Successfully ${enabled ? 'enabled' : 'disabled'} redirect rule`);
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        this.logger.info(`Attempting to ${description} (attempt ${attempt}/${maxAttempts})`);
+        await operation();
+        this.logger.info(`Succeeded: ${description}`);
         return true;
       } catch (error: any) {
         lastError = error;
-        
-        if (error.message === 'AUTHENTICATION_FAILED') {
+
+        if (error instanceof CloudflareAPIError && !error.retryable) {
           throw error;
         }
 
-        this.logger.warn(`Failed to update redirect rule (attempt ${attempt}/3)`, {
+        this.logger.warn(`Failed to ${description} (attempt ${attempt}/${maxAttempts})`, {
           message: error.message,
+          errors: error instanceof CloudflareAPIError ? error.errors : undefined,
         });
 
-        if (attempt < 3) {
-          const backoffMs = Math.pow(2, attempt - 1) * 1000; // 1s, 2s, 4s
+        if (attempt < maxAttempts) {
+          // Equal jitter: half the exponential delay plus a random share of the other half
+          const exponentialMs = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1));
+          let backoffMs = Math.round(exponentialMs / 2 + Math.random() * (exponentialMs / 2));
+          if (error instanceof CloudflareRateLimitError && error.retryAfterMs !== null) {
+            if (error.retryAfterMs > maxDelayMs) {
+              this.logger.warn(`Rate limited for ${error.retryAfterMs}ms, longer than the maximum retry delay; giving up`);
+              break;
+            }
+            backoffMs = Math.max(backoffMs, error.retryAfterMs);
+          }
           this.logger.debug(`Retrying in ${backoffMs}ms`);
           await new Promise(resolve => setTimeout(resolve, backoffMs));
         }
       }
     }
 
-    this.logger.error('All retries exhausted. Failed to update redirect rule.', {
+    this.logger.error(`All retries exhausted. Failed to ${description}.`, {
       lastError: lastError?.message,
     });
     return false;
   }
+
+  // Zone API call; throws a CloudflareAPIError subclass on failure
+  private async request(method: string, path: string, body?: unknown): Promise<any> {
+    return await this.send(method, `/zones/${this.zoneId}${path}`, body);
+  }
+
+  // Account API call, e.g. load balancer pools
+  private async accountRequest(method: string, path: string, body?: unknown): Promise<any> {
+    return await this.send(method, `/accounts/${this.accountId}${path}`, body);
+  }
+
+  private async send(method: string, path: string, body?: unknown): Promise<any> {
+    let response: Response;
+    try {
+      response = await fetch(
+        `https://api.cloudflare.com/client/v4${path}`,
+        {
+          method,
+          headers: {
+            'Authorization': `Bearer ${this.apiToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }
+      );
+    } catch (error: any) {
+      throw new CloudflareServerError(`Request failed: ${error.message}`, 0);
+    }
+
+    if (!response.ok) {
+      const error = await parseErrorResponse(response);
+      if (error instanceof CloudflareAuthError) {
+        this.logger.error('Critical: Cloudflare API authentication failed. Disabling further API calls.', {
+          status: error.status,
+          errors: error.errors,
+        });
+      }
+      throw error;
+    }
+
+    return await response.json();
+  }
+}
+
+function toRedirectRuleInfo(rule: any): RedirectRuleInfo {
+  return {
+    id: rule.id,
+    enabled: rule.enabled === true,
+    status: rule.enabled ? 'active' : 'inactive',
+    lastModified: rule.last_updated || new Date().toISOString(),
+    ...toRedirectTarget(rule),
+  };
+}
+
+function toRedirectTarget(rule: any): RedirectTarget {
+  const fromValue = rule.action_parameters?.from_value;
+  return {
+    expression: rule.expression ?? '',
+    targetUrl: fromValue?.target_url?.value ?? null,
+    targetExpression: fromValue?.target_url?.expression ?? null,
+    statusCode: fromValue?.status_code ?? null,
+    preserveQueryString: fromValue?.preserve_query_string === true,
+  };
+}
+
+// Maps a failed response to its error class, with the details from Cloudflare's errors[]
+async function parseErrorResponse(response: Response): Promise<CloudflareAPIError> {
+  let errors: CloudflareErrorDetail[] = [];
+  try {
+    const data: any = await response.json();
+    if (Array.isArray(data?.errors)) {
+      errors = data.errors.map((error: any) => ({ code: Number(error.code), message: String(error.message) }));
+    }
+  } catch {
+    // Not JSON, e.g. an HTML error page in front of the API
+  }
+
+  const status = response.status;
+  const details = errors.map(error => `${error.code}: ${error.message}`).join('; ');
+  const message = `HTTP ${status}: ${details || response.statusText}`;
+
+  if (status === 401) {
+    return new CloudflareAuthError(message, status, errors);
+  }
+  if (status === 403) {
+    return new CloudflarePermissionError(message, status, errors);
+  }
+  if (status === 429) {
+    return new CloudflareRateLimitError(message, status, errors, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  if (status === 404) {
+    return new CloudflareNotFoundError(message, status, errors);
+  }
+  if (status === 400 || status === 422) {
+    return new CloudflareValidationError(message, status, errors);
+  }
+  if (status >= 500) {
+    return new CloudflareServerError(message, status, errors);
+  }
+  return new CloudflareAPIError(message, status, errors);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
 }
@@ -1,14 +1,63 @@
 import type {
+  BackupState,
+  CertificateState,
+  CheckDetails,
+  Env,
+  FallbackPage,
   MonitorStateData,
   MaintenanceWindow,
+  PendingAction,
   RedirectRuleHistoryEntry,
+  RedirectTarget,
+  RuntimeConfig,
+  TransitionVerification,
 } from './types';
+import { MAX_WINDOW_SIZE } from './trigger';
+import { Logger } from './logger';
+import { validateEnvironment } from './validation';
+import { runMonitorCheck } from './monitor-runner';
+
+// Number of recent response times kept for percentile calculations
+const LATENCY_SAMPLE_SIZE = 100;
+
+// An alarm this far overdue is considered dead and re-armed by the watchdog
+const ALARM_GRACE_MS = 60 * 1000;
 
 export class MonitorState implements DurableObject {
   private state: DurableObjectState;
+  private env: Env;
 
-  constructor(state: DurableObjectState) {
+  constructor(state: DurableObjectState, env: Env) {
     this.state = state;
+    this.env = env;
+  }
+
+  // Runs the health check for this monitor and schedules the next one
+  async alarm(): Promise<void> {
+    const logger = new Logger((this.env.LOG_LEVEL || 'debug') as any);
+    const monitorId = await this.state.storage.get<string>('monitorId');
+    if (!monitorId) {
+      return;
+    }
+
+    let config;
+    try {
+      config = validateEnvironment(this.env, logger);
+    } catch {
+      // Leave the alarm unarmed; the cron watchdog re-arms it once the config is fixed
+      logger.error(`[${monitorId}] Skipping check due to validation errors`);
+      return;
+    }
+
+    const monitor = config.monitors.find(m => m.id === monitorId);
+    if (!monitor) {
+      logger.warn(`[${monitorId}] Monitor no longer in registry, stopping checks`);
+      return;
+    }
+
+    // Schedule before checking so a slow check doesn't stretch the interval
+    await this.scheduleNextCheck(monitor.checkIntervalSeconds * 1000);
+    await runMonitorCheck(this.env, config, monitor, logger);
   }
 
   async fetch(request: Request): Promise<Response> {
@@ -26,12 +75,21 @@ export class MonitorState implements DurableObject {
 
       // Update counters
       if (method === 'POST' && url.pathname === '/increment-failure') {
+        const body = await request.json() as { reason: string } & CheckDetails;
         const state = await this.getState();
         state.failureCount++;
         state.recoveryCount = 0;
         state.lastCheckTime = new Date().toISOString();
         state.failuresTotal++;
         state.healthChecksTotal++;
+        state.lastFailureReason = body.reason;
+        state.lastFailureTime = state.lastCheckTime;
+        state.degraded = false;
+        if (body.confirmed) {
+          state.confirmedFailuresTotal++;
+        }
+        this.recordLatency(state, body.latencyMs);
+        this.recordResult(state, false);
         await this.setState(state);
         return new Response(JSON.stringify(state), {
           headers: { 'Content-Type': 'application/json' },
@@ -39,12 +97,63 @@ export class MonitorState implements DurableObject {
       }
 
       if (method === 'POST' && url.pathname === '/increment-recovery') {
+        const body = await request.json() as CheckDetails;
         const state = await this.getState();
         state.recoveryCount++;
         state.failureCount = 0;
         state.lastCheckTime = new Date().toISOString();
         state.healthChecksTotal++;
         state.successesTotal++;
+        state.degraded = body.degraded === true;
+        if (body.degraded) {
+          state.slowChecksTotal++;
+        }
+        if (body.transientFailure) {
+          state.transientFailuresTotal++;
+        }
+        this.recordLatency(state, body.latencyMs);
+        this.recordResult(state, true);
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Checks that are neither a success nor a failure leave the counters untouched
+      if (method === 'POST' && url.pathname === '/record-inconclusive') {
+        const state = await this.getState();
+        state.lastCheckTime = new Date().toISOString();
+        state.healthChecksTotal++;
+        state.inconclusiveChecksTotal++;
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (method === 'POST' && url.pathname === '/update-certificate') {
+        const body = await request.json() as CertificateState;
+        const state = await this.getState();
+        state.certificate = body;
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (method === 'POST' && url.pathname === '/update-backup-health') {
+        const body = await request.json() as { tier: string; health: BackupState };
+        const state = await this.getState();
+        state.tierHealth[body.tier] = body.health;
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (method === 'POST' && url.pathname === '/record-failover-deferred') {
+        const state = await this.getState();
+        state.failoversDeferredTotal++;
         await this.setState(state);
         return new Response(JSON.stringify(state), {
           headers: { 'Content-Type': 'application/json' },
@@ -55,6 +164,7 @@ export class MonitorState implements DurableObject {
         const state = await this.getState();
         state.failureCount = 0;
         state.recoveryCount = 0;
+        state.recentResults = [];
         // Preserve cumulative metrics - they should always accumulate
         await this.setState(state);
         return new Response(JSON.stringify(state), {
@@ -67,11 +177,21 @@ export class MonitorState implements DurableObject {
         const state = await this.getState();
         state.failureCount = 0;
         state.recoveryCount = 0;
+        state.recentResults = [];
         state.healthChecksTotal = 0;
         state.successesTotal = 0;
         state.failuresTotal = 0;
         state.redirectRuleChangesTotal = 0;
         state.apiErrorsTotal = 0;
+        state.slowChecksTotal = 0;
+        state.confirmedFailuresTotal = 0;
+        state.transientFailuresTotal = 0;
+        state.inconclusiveChecksTotal = 0;
+        state.failoversDeferredTotal = 0;
+        state.driftEventsTotal = 0;
+        state.dryRunDecisionsTotal = 0;
+        state.verificationFailuresTotal = 0;
+        state.latencySamples = [];
         await this.setState(state);
         return new Response(JSON.stringify(state), {
           headers: { 'Content-Type': 'application/json' },
@@ -80,18 +200,29 @@ export class MonitorState implements DurableObject {
 
       // Update redirect rule state
       if (method === 'POST' && url.pathname === '/update-redirect-rule-state') {
-        const body = await request.json() as { enabled: boolean; reason: string };
+        const body = await request.json() as { enabled: boolean; reason: string; tier?: string | null; dryRun?: boolean };
         const state = await this.getState();
+        const previousTier = state.activeTier;
+        const event = !body.enabled ? 'disabled' : state.redirectRuleEnabled ? 'switched' : 'enabled';
         state.redirectRuleEnabled = body.enabled;
-        state.redirectRuleChangesTotal++;
+        state.activeTier = body.enabled ? (body.tier ?? null) : null;
+        // In dry-run mode the stored state follows the decisions, but no rule was changed
+        if (body.dryRun) {
+          state.dryRunDecisionsTotal++;
+        } else {
+          state.redirectRuleChangesTotal++;
+        }
         
         // Add to history
+        const tier = body.enabled ? body.tier : (body.tier ?? previousTier);
         state.redirectRuleHistory.unshift({
           timestamp: new Date().toISOString(),
-          event: body.enabled ? 'enabled' : 'disabled',
+          event,
           reason: body.reason,
           failureCount: state.failureCount,
           recoveryCount: state.recoveryCount,
+          ...(tier ? { tier } : {}),
+          ...(body.dryRun ? { dryRun: true } : {}),
         });
         
         // Keep only last 50 entries
@@ -105,6 +236,162 @@ export class MonitorState implements DurableObject {
         });
       }
 
+      // Fallback page, stored apart from the state since it is rarely read and may be large
+      if (method === 'GET' && url.pathname === '/fallback-page') {
+        const page = await this.state.storage.get<FallbackPage>('fallbackPage');
+        return new Response(JSON.stringify(page ?? null), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (method === 'PUT' && url.pathname === '/fallback-page') {
+        const body = await request.json() as { html: string; retryAfterSeconds: number };
+        const page: FallbackPage = {
+          html: body.html,
+          retryAfterSeconds: body.retryAfterSeconds,
+          updatedAt: new Date().toISOString(),
+        };
+        await this.state.storage.put('fallbackPage', page);
+        return new Response(JSON.stringify(page), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (method === 'DELETE' && url.pathname === '/fallback-page') {
+        await this.state.storage.delete('fallbackPage');
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Runtime config
+      if (method === 'POST' && url.pathname === '/set-runtime-config') {
+        const body = await request.json() as RuntimeConfig;
+        const state = await this.getState();
+        state.runtimeConfig = body;
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Post-transition verification, stored with the history entry of the transition
+      if (method === 'POST' && url.pathname === '/record-verification') {
+        const body = await request.json() as { timestamp: string; verification: TransitionVerification };
+        const state = await this.getState();
+        const entry = state.redirectRuleHistory.find(candidate => candidate.timestamp === body.timestamp);
+        if (entry) {
+          entry.verification = body.verification;
+        }
+        state.lastVerification = body.verification;
+        if (!body.verification.passed) {
+          state.verificationFailuresTotal++;
+        }
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Redirect target edits are kept in the history so they can be rolled back
+      if (method === 'POST' && url.pathname === '/record-redirect-edit') {
+        const body = await request.json() as {
+          reason: string;
+          tier: string;
+          previousTarget: RedirectTarget;
+          target: RedirectTarget;
+        };
+        const state = await this.getState();
+        state.redirectRuleHistory.unshift({
+          timestamp: new Date().toISOString(),
+          event: 'edited',
+          reason: body.reason,
+          failureCount: state.failureCount,
+          recoveryCount: state.recoveryCount,
+          tier: body.tier,
+          previousTarget: body.previousTarget,
+          target: body.target,
+        });
+
+        if (state.redirectRuleHistory.length > 50) {
+          state.redirectRuleHistory = state.redirectRuleHistory.slice(0, 50);
+        }
+
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Drift reconciliation
+      if (method === 'POST' && url.pathname === '/record-reconcile') {
+        const state = await this.getState();
+        state.lastReconcileTime = new Date().toISOString();
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (method === 'POST' && url.pathname === '/record-drift') {
+        const body = await request.json() as { reason: string; enabled: boolean; tier: string | null };
+        const state = await this.getState();
+        state.redirectRuleEnabled = body.enabled;
+        state.activeTier = body.enabled ? body.tier : null;
+        state.driftEventsTotal++;
+        state.lastReconcileTime = new Date().toISOString();
+
+        state.redirectRuleHistory.unshift({
+          timestamp: state.lastReconcileTime,
+          event: 'drift',
+          reason: body.reason,
+          failureCount: state.failureCount,
+          recoveryCount: state.recoveryCount,
+          ...(body.tier ? { tier: body.tier } : {}),
+        });
+
+        if (state.redirectRuleHistory.length > 50) {
+          state.redirectRuleHistory = state.redirectRuleHistory.slice(0, 50);
+        }
+
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Pending action outbox, keyed by tier so a newer intent replaces an older one
+      if (method === 'POST' && url.pathname === '/put-pending-action') {
+        const body = await request.json() as PendingAction;
+        const state = await this.getState();
+        state.pendingActions = [...state.pendingActions.filter(pending => pending.tier !== body.tier), body];
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (method === 'POST' && url.pathname === '/remove-pending-action') {
+        const body = await request.json() as { tier: string };
+        const state = await this.getState();
+        state.pendingActions = state.pendingActions.filter(pending => pending.tier !== body.tier);
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Flap detection
+      if (method === 'POST' && url.pathname === '/set-flapping') {
+        const body = await request.json() as { flapping: boolean };
+        const state = await this.getState();
+        state.flappingSince = body.flapping ? (state.flappingSince ?? new Date().toISOString()) : null;
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
       // Maintenance mode
       if (method === 'POST' && url.pathname === '/set-maintenance-mode') {
         const body = await request.json() as { enabled: boolean; reason?: string };
@@ -163,7 +450,22 @@ export class MonitorState implements DurableObject {
         });
       }
 
-      if (method === 'POST' && url.pathname === '/update-cron-execution') {
+      // Watchdog: record the cron run and re-arm the check alarm if it died
+      if (method === 'POST' && url.pathname === '/ensure-alarm') {
+        const body = await request.json() as { monitorId: string; intervalSeconds: number };
+        await this.state.storage.put('monitorId', body.monitorId);
+
+        const alarm = await this.state.storage.getAlarm();
+        const overdueMs = Math.max(body.intervalSeconds * 1000 * 2, ALARM_GRACE_MS);
+        if (alarm === null || alarm < Date.now() - overdueMs) {
+          const logger = new Logger((this.env.LOG_LEVEL || 'debug') as any);
+          logger.warn(`[${body.monitorId}] Check alarm was not armed, re-arming`);
+          await this.scheduleNextCheck(0);
+          const rearmed = await this.getState();
+          rearmed.alarmRearmsTotal++;
+          await this.setState(rearmed);
+        }
+
         const state = await this.getState();
         state.lastCronExecution = new Date().toISOString();
         await this.setState(state);
@@ -174,8 +476,33 @@ export class MonitorState implements DurableObject {
 
       // Disable API calls
       if (method === 'POST' && url.pathname === '/disable-api-calls') {
+        const body = await request.json() as { reason: string };
         const state = await this.getState();
+        if (!state.apiCallsDisabled) {
+          state.apiCallsDisabledSince = new Date().toISOString();
+        }
         state.apiCallsDisabled = true;
+        state.apiCallsDisabledReason = body.reason;
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (method === 'POST' && url.pathname === '/enable-api-calls') {
+        const state = await this.getState();
+        state.apiCallsDisabled = false;
+        state.apiCallsDisabledReason = null;
+        state.apiCallsDisabledSince = null;
+        await this.setState(state);
+        return new Response(JSON.stringify(state), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (method === 'POST' && url.pathname === '/record-token-verification') {
+        const state = await this.getState();
+        state.lastTokenVerifyTime = new Date().toISOString();
         await this.setState(state);
         return new Response(JSON.stringify(state), {
           headers: { 'Content-Type': 'application/json' },
@@ -214,34 +541,91 @@ export class MonitorState implements DurableObject {
     }
   }
 
+  private async scheduleNextCheck(delayMs: number) {
+    const nextCheck = Date.now() + delayMs;
+    await this.state.storage.setAlarm(nextCheck);
+    const state = await this.getState();
+    state.nextCheckTime = new Date(nextCheck).toISOString();
+    await this.setState(state);
+  }
+
+  private recordLatency(state: MonitorStateData, latencyMs: number | null | undefined) {
+    if (latencyMs === null || latencyMs === undefined) {
+      return;
+    }
+    state.lastLatencyMs = latencyMs;
+    state.latencySamples.push(latencyMs);
+    if (state.latencySamples.length > LATENCY_SAMPLE_SIZE) {
+      state.latencySamples = state.latencySamples.slice(-LATENCY_SAMPLE_SIZE);
+    }
+  }
+
+  private recordResult(state: MonitorStateData, success: boolean) {
+    state.recentResults.push(success);
+    if (state.recentResults.length > MAX_WINDOW_SIZE) {
+      state.recentResults = state.recentResults.slice(-MAX_WINDOW_SIZE);
+    }
+  }
+
   private async getState(): Promise<MonitorStateData> {
     const data = await this.state.storage.get<MonitorStateData>('state');
     
     if (!data) {
       // Initialize with default values
-      const defaultState: MonitorStateData = {
-        failureCount: 0,
-        recoveryCount: 0,
-        lastCheckTime: null,
-        redirectRuleEnabled: false,
-        maintenanceMode: false,
-        scheduledMaintenanceWindows: [],
-        redirectRuleHistory: [],
-        healthChecksTotal: 0,
-        successesTotal: 0,
-        failuresTotal: 0,
-        redirectRuleChangesTotal: 0,
-        apiErrorsTotal: 0,
-        lastCronExecution: null,
-        workerStartTime: new Date().toISOString(),
-        apiCallsDisabled: false,
-      };
-      
+      const defaultState = this.createDefaultState();
       await this.setState(defaultState);
       return defaultState;
     }
     
-    return data;
+    // Fill in fields added after this state was first stored
+    return { ...this.createDefaultState(), ...data };
+  }
+
+  private createDefaultState(): MonitorStateData {
+    return {
+      failureCount: 0,
+      recoveryCount: 0,
+      lastCheckTime: null,
+      nextCheckTime: null,
+      redirectRuleEnabled: false,
+      maintenanceMode: false,
+      scheduledMaintenanceWindows: [],
+      redirectRuleHistory: [],
+      healthChecksTotal: 0,
+      successesTotal: 0,
+      failuresTotal: 0,
+      redirectRuleChangesTotal: 0,
+      apiErrorsTotal: 0,
+      lastCronExecution: null,
+      alarmRearmsTotal: 0,
+      workerStartTime: new Date().toISOString(),
+      apiCallsDisabled: false,
+      apiCallsDisabledReason: null,
+      apiCallsDisabledSince: null,
+      lastTokenVerifyTime: null,
+      lastFailureReason: null,
+      lastFailureTime: null,
+      latencySamples: [],
+      lastLatencyMs: null,
+      degraded: false,
+      slowChecksTotal: 0,
+      recentResults: [],
+      flappingSince: null,
+      confirmedFailuresTotal: 0,
+      transientFailuresTotal: 0,
+      inconclusiveChecksTotal: 0,
+      certificate: null,
+      activeTier: null,
+      tierHealth: {},
+      failoversDeferredTotal: 0,
+      lastReconcileTime: null,
+      driftEventsTotal: 0,
+      dryRunDecisionsTotal: 0,
+      pendingActions: [],
+      lastVerification: null,
+      verificationFailuresTotal: 0,
+      runtimeConfig: null,
+    };
   }
 
   private async setState(state: MonitorStateData): Promise<void> {
@@ -0,0 +1,287 @@
+import type {
+  DnsRecordActionConfig,
+  FailoverTierConfig,
+  HttpActionConfig,
+  LoadBalancerPoolActionConfig,
+  MonitorConfig,
+  ProxyActionConfig,
+  RedirectRuleActionConfig,
+  RedirectTarget,
+} from './types';
+import { Logger } from './logger';
+import { CloudflareAPIClient, CloudflareNotFoundError } from './cloudflare-api';
+
+const HTTP_ACTION_TIMEOUT_MS = 10000;
+
+export interface FailoverActionStatus {
+  id: string; // Rule, record or pool ID
+  active: boolean; // Whether traffic currently goes to the failover destination
+  lastModified: string | null;
+  targetUrl: string | null; // Failover destination, when the action knows it
+  redirect: RedirectTarget | null; // Matching and target of a redirect rule; null for other actions
+}
+
+// Moves traffic to a failover tier and back. setActive returns false when the
+// change failed after retries and throws CloudflareAuthError when the token is rejected.
+export interface FailoverAction {
+  readonly description: string;
+  setActive(active: boolean): Promise<boolean>;
+  // Missing when the action cannot report its state; throws a CloudflareAPIError when reading fails
+  getStatus?(): Promise<FailoverActionStatus>;
+}
+
+export function createFailoverAction(
+  monitor: MonitorConfig,
+  tier: FailoverTierConfig,
+  apiClient: CloudflareAPIClient,
+  logger: Logger
+): FailoverAction {
+  let action: FailoverAction;
+  switch (tier.action.type) {
+    case 'redirect-rule':
+      action = new RedirectRuleAction(tier.action, apiClient);
+      break;
+    case 'dns-record':
+      action = new DnsRecordAction(tier.action, apiClient);
+      break;
+    case 'load-balancer-pool':
+      action = new LoadBalancerPoolAction(tier.action, apiClient);
+      break;
+    case 'http':
+      action = new HttpAction(tier.action, monitor.id, tier.name, logger);
+      break;
+    case 'fallback-page':
+      action = new FallbackPageAction(monitor.id, tier.name, logger);
+      break;
+    case 'proxy':
+      action = new ProxyAction(tier.action, monitor.id, tier.name, logger);
+      break;
+  }
+  return monitor.dryRun ? new DryRunAction(action, monitor.id, logger) : action;
+}
+
+// Logs what the wrapped action would do instead of doing it; reads still go through
+class DryRunAction implements FailoverAction {
+  readonly description: string;
+  readonly getStatus?: () => Promise<FailoverActionStatus>;
+  private monitorId: string;
+  private logger: Logger;
+
+  constructor(action: FailoverAction, monitorId: string, logger: Logger) {
+    this.description = action.description;
+    this.getStatus = action.getStatus?.bind(action);
+    this.monitorId = monitorId;
+    this.logger = logger;
+  }
+
+  async setActive(active: boolean): Promise<boolean> {
+    this.logger.warn(`[${this.monitorId}] Dry run: would ${active ? 'activate' : 'deactivate'} ${this.description}`);
+    return true;
+  }
+}
+
+class RedirectRuleAction implements FailoverAction {
+  readonly description: string;
+  private config: RedirectRuleActionConfig;
+  private apiClient: CloudflareAPIClient;
+
+  constructor(config: RedirectRuleActionConfig, apiClient: CloudflareAPIClient) {
+    this.config = config;
+    this.apiClient = apiClient;
+    this.description = config.redirectRuleId ? `redirect rule ${config.redirectRuleId}` : 'unprovisioned redirect rule';
+  }
+
+  async setActive(active: boolean): Promise<boolean> {
+    return await this.apiClient.updateRedirectRule(this.ruleId(), active, this.config.rulesetId);
+  }
+
+  async getStatus(): Promise<FailoverActionStatus> {
+    const rule = await this.apiClient.getRedirectRule(this.ruleId(), this.config.rulesetId);
+    return {
+      id: rule.id,
+      active: rule.enabled,
+      lastModified: rule.lastModified,
+      targetUrl: rule.targetUrl,
+      redirect: {
+        expression: rule.expression,
+        targetUrl: rule.targetUrl,
+        targetExpression: rule.targetExpression,
+        statusCode: rule.statusCode,
+        preserveQueryString: rule.preserveQueryString,
+      },
+    };
+  }
+
+  private ruleId(): string {
+    if (!this.config.redirectRuleId) {
+      throw new CloudflareNotFoundError('No redirect rule configured; set REDIRECT_RULE_ID or provision one through the API');
+    }
+    return this.config.redirectRuleId;
+  }
+}
+
+// Points a DNS record at the failover destination and back
+class DnsRecordAction implements FailoverAction {
+  readonly description: string;
+  private config: DnsRecordActionConfig;
+  private apiClient: CloudflareAPIClient;
+
+  constructor(config: DnsRecordActionConfig, apiClient: CloudflareAPIClient) {
+    this.config = config;
+    this.apiClient = apiClient;
+    this.description = `DNS record ${config.recordId}`;
+  }
+
+  async setActive(active: boolean): Promise<boolean> {
+    const content = active ? this.config.failoverContent : this.config.primaryContent;
+    return await this.apiClient.updateDnsRecord(this.config.recordId, content);
+  }
+
+  async getStatus(): Promise<FailoverActionStatus> {
+    const record = await this.apiClient.getDnsRecord(this.config.recordId);
+    return {
+      id: record.id,
+      active: record.content === this.config.failoverContent,
+      lastModified: record.lastModified,
+      targetUrl: null,
+      redirect: null,
+    };
+  }
+}
+
+// Fails over by disabling the primary pool or origin, and recovers by enabling it again
+class LoadBalancerPoolAction implements FailoverAction {
+  readonly description: string;
+  private config: LoadBalancerPoolActionConfig;
+  private apiClient: CloudflareAPIClient;
+
+  constructor(config: LoadBalancerPoolActionConfig, apiClient: CloudflareAPIClient) {
+    this.config = config;
+    this.apiClient = apiClient;
+    this.description = config.originName
+      ? `load balancer origin ${config.originName} in pool ${config.poolId}`
+      : `load balancer pool ${config.poolId}`;
+  }
+
+  async setActive(active: boolean): Promise<boolean> {
+    return await this.apiClient.updateLoadBalancerPool(this.config.poolId, !active, this.config.originName);
+  }
+
+  async getStatus(): Promise<FailoverActionStatus> {
+    const pool = await this.apiClient.getLoadBalancerPool(this.config.poolId);
+    let enabled = pool.enabled;
+    if (this.config.originName) {
+      const origin = pool.origins.find(candidate => candidate.name === this.config.originName);
+      if (!origin) {
+        throw new CloudflareNotFoundError(`Origin ${this.config.originName} not found in pool ${this.config.poolId}`);
+      }
+      enabled = origin.enabled;
+    }
+    return {
+      id: pool.id,
+      active: !enabled,
+      lastModified: pool.lastModified,
+      targetUrl: null,
+      redirect: null,
+    };
+  }
+}
+
+// Calls a webhook, e.g. another provider's API. The worker cannot read the
+// resulting state back, so these tiers are skipped by drift reconciliation.
+class HttpAction implements FailoverAction {
+  readonly description: string;
+  private config: HttpActionConfig;
+  private monitorId: string;
+  private tierName: string;
+  private logger: Logger;
+
+  constructor(config: HttpActionConfig, monitorId: string, tierName: string, logger: Logger) {
+    this.config = config;
+    this.monitorId = monitorId;
+    this.tierName = tierName;
+    this.logger = logger;
+    this.description = `HTTP action ${config.method} ${config.url}`;
+  }
+
+  async setActive(active: boolean): Promise<boolean> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), HTTP_ACTION_TIMEOUT_MS);
+    try {
+      const response = await fetch(this.config.url, {
+        method: this.config.method,
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: JSON.stringify({
+          monitorId: this.monitorId,
+          tier: this.tierName,
+          active,
+          timestamp: new Date().toISOString(),
+        }),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        this.logger.error(`${this.description} returned HTTP ${response.status}`);
+        return false;
+      }
+      this.logger.info(`${this.description} ${active ? 'activated' : 'deactivated'} tier "${this.tierName}"`);
+      return true;
+    } catch (error: any) {
+      this.logger.error(`${this.description} failed`, {
+        error: error.name === 'AbortError' ? `Timed out after ${HTTP_ACTION_TIMEOUT_MS}ms` : error.message,
+      });
+      return false;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+// Nothing to change in Cloudflare: the worker serves the fallback page on the site's
+// route while this tier is the active one in the stored state
+class FallbackPageAction implements FailoverAction {
+  readonly description = 'worker fallback page';
+  private monitorId: string;
+  private tierName: string;
+  private logger: Logger;
+
+  constructor(monitorId: string, tierName: string, logger: Logger) {
+    this.monitorId = monitorId;
+    this.tierName = tierName;
+    this.logger = logger;
+  }
+
+  async setActive(active: boolean): Promise<boolean> {
+    this.logger.info(`[${this.monitorId}] ${active ? 'Serving' : 'No longer serving'} the fallback page for tier "${this.tierName}"`);
+    return true;
+  }
+}
+
+// Like the fallback page, switching origins only changes the stored state the
+// worker reads on the site's route
+class ProxyAction implements FailoverAction {
+  readonly description: string;
+  private monitorId: string;
+  private tierName: string;
+  private logger: Logger;
+
+  constructor(config: ProxyActionConfig, monitorId: string, tierName: string, logger: Logger) {
+    this.monitorId = monitorId;
+    this.tierName = tierName;
+    this.logger = logger;
+    this.description = `proxy to ${config.backupOrigin}`;
+  }
+
+  async setActive(active: boolean): Promise<boolean> {
+    this.logger.info(`[${this.monitorId}] ${active ? 'Proxying to' : 'No longer proxying to'} the backup origin of tier "${this.tierName}"`);
+    return true;
+  }
+}
+
+// The same URL on another origin, keeping path and query
+export function onOrigin(url: string, origin: string): string {
+  const rewritten = new URL(url);
+  const target = new URL(origin);
+  rewritten.protocol = target.protocol;
+  rewritten.host = target.host;
+  return rewritten.toString();
+}
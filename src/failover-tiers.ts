@@ -0,0 +1,162 @@
+import type { BackupState, FailoverTierConfig, MonitorConfig, MonitorStateData } from './types';
+import { Logger } from './logger';
+import { CloudflareAPIClient, CloudflareAuthError } from './cloudflare-api';
+import { HealthChecker } from './health-check';
+import { StateManager } from './state-manager';
+import { createFailoverAction, onOrigin } from './failover-actions';
+
+// Index of the tier whose failover action is active, or -1 when not failed over.
+// State from before failover tiers has no activeTier, which means the first tier.
+export function getActiveTierIndex(monitor: MonitorConfig, state: MonitorStateData): number {
+  if (!state.redirectRuleEnabled) {
+    return -1;
+  }
+  const index = monitor.tiers.findIndex(tier => tier.name === state.activeTier);
+  return index === -1 ? 0 : index;
+}
+
+// Activates or deactivates a tier's failover action; failures are recorded and reported as false
+export async function updateTierAction(
+  monitor: MonitorConfig,
+  apiClient: CloudflareAPIClient,
+  stateManager: StateManager,
+  logger: Logger,
+  tier: FailoverTierConfig,
+  active: boolean
+): Promise<boolean> {
+  const action = createFailoverAction(monitor, tier, apiClient, logger);
+  try {
+    const success = await action.setActive(active);
+    if (!success) {
+      await stateManager.incrementApiErrors();
+    }
+    return success;
+  } catch (error: any) {
+    if (error instanceof CloudflareAuthError) {
+      await stateManager.disableApiCalls(
+        `Cloudflare API rejected the token while trying to ${active ? 'activate' : 'deactivate'} the ${action.description}`
+      );
+    } else {
+      await stateManager.incrementApiErrors();
+    }
+    return false;
+  }
+}
+
+// Probe a failover tier with its own probe and assertions
+export async function checkBackup(
+  monitor: MonitorConfig,
+  tier: FailoverTierConfig,
+  url: string,
+  logger: Logger
+): Promise<BackupState> {
+  const backupCheck = tier.backupCheck!;
+  const backupMonitor: MonitorConfig = {
+    ...monitor,
+    id: `${monitor.id}/${tier.name}`,
+    probe: backupCheck.probe,
+    assertions: backupCheck.assertions,
+    tiers: [],
+    originProbe: null,
+    slowThresholdMs: null,
+  };
+
+  const result = await new HealthChecker(logger).check(backupMonitor, { url });
+  return {
+    url,
+    healthy: result.healthy,
+    checkedAt: new Date().toISOString(),
+    failureReason: result.healthy ? null : result.failureReasons.join('; '),
+    latencyMs: result.latencyMs,
+  };
+}
+
+// Picks the highest-priority healthy tier, probing each tier at most once per check cycle
+export class TierSelector {
+  private monitor: MonitorConfig;
+  private state: MonitorStateData;
+  private apiClient: CloudflareAPIClient;
+  private stateManager: StateManager;
+  private logger: Logger;
+  private activeTier: string | null;
+  private probed = new Map<string, BackupState | null>();
+
+  constructor(
+    monitor: MonitorConfig,
+    state: MonitorStateData,
+    apiClient: CloudflareAPIClient,
+    stateManager: StateManager,
+    logger: Logger
+  ) {
+    this.monitor = monitor;
+    this.state = state;
+    this.apiClient = apiClient;
+    this.stateManager = stateManager;
+    this.logger = logger;
+    this.activeTier = monitor.tiers[getActiveTierIndex(monitor, state)]?.name ?? null;
+  }
+
+  // Returns null when the tier has no health check or its URL is unknown
+  async probe(tier: FailoverTierConfig): Promise<BackupState | null> {
+    if (this.probed.has(tier.name)) {
+      return this.probed.get(tier.name)!;
+    }
+
+    let health: BackupState | null = null;
+    const url = tier.backupCheck ? await this.resolveUrl(tier) : null;
+    if (url) {
+      health = await checkBackup(this.monitor, tier, url, this.logger);
+      const previous = this.state.tierHealth[tier.name];
+      if (!health.healthy && previous?.healthy !== false && tier.name === this.activeTier) {
+        this.logger.error(`[${this.monitor.id}] Tier "${tier.name}" (${url}) is unhealthy while serving failover traffic`, {
+          reason: health.failureReason,
+        });
+      }
+      await this.stateManager.updateBackupHealth(tier.name, health);
+    } else if (tier.backupCheck) {
+      this.logger.debug(`[${this.monitor.id}] No URL configured or reported by the failover action of tier "${tier.name}", skipping its health check`);
+    }
+
+    this.probed.set(tier.name, health);
+    return health;
+  }
+
+  // First healthy tier, or else the first tier allowed to take traffic while unhealthy
+  async select(): Promise<FailoverTierConfig | null> {
+    for (const tier of this.monitor.tiers) {
+      const health = await this.probe(tier);
+      if (!health || health.healthy) {
+        return tier;
+      }
+    }
+    return this.monitor.tiers.find(tier => tier.backupCheck?.onUnhealthy === 'proceed') ?? null;
+  }
+
+  // The configured URL, or the target reported by the tier's action. The action is
+  // only read while the tier is inactive, so the cached target is used while serving it.
+  private async resolveUrl(tier: FailoverTierConfig): Promise<string | null> {
+    if (tier.backupCheck?.url) {
+      return tier.backupCheck.url;
+    }
+    if (tier.action.type === 'proxy') {
+      return onOrigin(this.monitor.monitorUrl, tier.action.backupOrigin);
+    }
+    const cached = this.state.tierHealth[tier.name]?.url ?? null;
+    if (cached && tier.name === this.activeTier) {
+      return cached;
+    }
+
+    const action = createFailoverAction(this.monitor, tier, this.apiClient, this.logger);
+    if (!action.getStatus) {
+      return cached;
+    }
+    try {
+      return (await action.getStatus()).targetUrl ?? cached;
+    } catch (error: any) {
+      this.logger.warn(`[${this.monitor.id}] Could not read the ${action.description} of tier "${tier.name}"`, {
+        error: error.message,
+      });
+      return cached;
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import type { FallbackPage } from './types';
+
+export const MAX_FALLBACK_PAGE_BYTES = 512 * 1024;
+
+export const DEFAULT_FALLBACK_PAGE: FallbackPage = {
+  html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Temporarily unavailable</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 36rem; margin: 15vh auto; padding: 0 1.5rem; color: #333; }
+    h1 { font-size: 1.5rem; }
+  </style>
+</head>
+<body>
+  <h1>We'll be right back</h1>
+  <p>This site is temporarily unavailable. Please try again in a few minutes.</p>
+</body>
+</html>
+`,
+  retryAfterSeconds: 300,
+  updatedAt: null,
+};
+
+// 503 with the page, telling clients and crawlers when to come back
+export function fallbackPageResponse(page: FallbackPage, request: Request): Response {
+  return new Response(request.method === 'HEAD' ? null : page.html, {
+    status: 503,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Retry-After': String(page.retryAfterSeconds),
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,38 @@
+import type { MonitorConfig, MonitorStateData } from './types';
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+export interface FlapStatus {
+  flapping: boolean;
+  transitionsLastHour: number;
+  lastTransitionTime: string | null;
+  dwellUntil: string | null; // No transitions allowed before this time
+  dwellRemainingSeconds: number;
+}
+
+// Derives dwell and flapping status from the redirect rule history (newest entry first)
+export function getFlapStatus(monitor: MonitorConfig, state: MonitorStateData, now: Date = new Date()): FlapStatus {
+  // Edits change where the rule points, not whether it is on
+  const transitions = state.redirectRuleHistory.filter(entry => entry.event !== 'edited');
+  const transitionsLastHour = transitions.filter(
+    entry => now.getTime() - new Date(entry.timestamp).getTime() < ONE_HOUR_MS
+  ).length;
+
+  const lastTransitionTime = transitions[0]?.timestamp ?? null;
+
+  let dwellUntil: string | null = null;
+  let dwellRemainingSeconds = 0;
+  if (lastTransitionTime && monitor.minDwellSeconds > 0) {
+    const dwellEnd = new Date(lastTransitionTime).getTime() + monitor.minDwellSeconds * 1000;
+    dwellUntil = new Date(dwellEnd).toISOString();
+    dwellRemainingSeconds = Math.max(0, Math.ceil((dwellEnd - now.getTime()) / 1000));
+  }
+
+  return {
+    flapping: monitor.maxTransitionsPerHour !== null && transitionsLastHour >= monitor.maxTransitionsPerHour,
+    transitionsLastHour,
+    lastTransitionTime,
+    dwellUntil,
+    dwellRemainingSeconds,
+  };
+}
@@ -0,0 +1,373 @@
+import type { HealthCheckAssertions, MonitorConfig } from './types';
+import { Logger } from './logger';
+import { probeDns, probeSocket } from './protocol-probes';
+
+export interface HealthCheckResult {
+  healthy: boolean;
+  inconclusive: boolean; // Response came back through our own redirect and must not be counted
+  degraded: boolean;
+  statusCode: number | null;
+  latencyMs: number | null; // Null when no response was received
+  failureReasons: string[];
+}
+
+// Overrides where a probe is sent, e.g. for the confirmation re-probe
+export interface ProbeTarget {
+  url: string;
+  resolveOverride?: string; // Resolve the URL's hostname to this hostname instead (same zone only)
+}
+
+export interface LatencySummary {
+  sampleCount: number;
+  lastMs: number | null;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+const DEFAULT_STATUS_CODES = [200];
+
+// Returned by Cloudflare when it cannot establish TLS to the origin
+const CLOUDFLARE_TLS_ERRORS: Record<number, string> = {
+  525: 'SSL handshake with the origin failed',
+  526: 'Invalid SSL certificate on the origin',
+};
+
+const TLS_ERROR_PATTERN = /\b(tls|ssl|certificate|handshake)\b/i;
+
+export class HealthChecker {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  async check(monitor: MonitorConfig, override?: ProbeTarget): Promise<HealthCheckResult> {
+    if (monitor.probe.type !== 'http') {
+      return this.checkProtocol(monitor);
+    }
+
+    const target = override ?? getDefaultTarget(monitor);
+    const url = target.url;
+    this.logger.debug(`[${monitor.id}] Checking health of ${url}`, target.resolveOverride
+      ? { resolveOverride: target.resolveOverride }
+      : undefined);
+
+    const headers: Record<string, string> = { ...monitor.probe.headers };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), monitor.timeoutSeconds * 1000);
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch(url, {
+        method: monitor.probe.method,
+        headers,
+        body: monitor.probe.body,
+        redirect: monitor.probe.redirect,
+        signal: controller.signal,
+        cf: target.resolveOverride ? { resolveOverride: target.resolveOverride } : undefined,
+      });
+
+      const ownRedirect = detectOwnRedirect(
+        response,
+        url,
+        monitor.tiers.flatMap(tier => tier.targetUrl ?? [])
+      );
+      if (ownRedirect) {
+        this.logger.warn(`[${monitor.id}] Health check inconclusive`, { reason: ownRedirect });
+        return {
+          healthy: false,
+          inconclusive: true,
+          degraded: false,
+          statusCode: response.status,
+          latencyMs: Date.now() - startTime,
+          failureReasons: [ownRedirect],
+        };
+      }
+
+      const tlsError = CLOUDFLARE_TLS_ERRORS[response.status];
+      if (tlsError) {
+        return this.complete(monitor, response.status, Date.now() - startTime, [
+          `TLS error: ${tlsError} (${response.status})`,
+        ]);
+      }
+
+      // Body assertions read the response, so the timeout stays armed until they finish
+      const failureReasons = await evaluateAssertions(response, monitor.assertions);
+
+      // The final URL is only meaningful when the public URL itself was requested
+      if (monitor.probe.expectedFinalUrl && url === monitor.monitorUrl && response.url !== monitor.probe.expectedFinalUrl) {
+        failureReasons.push(`Final URL ${response.url} does not match expected ${monitor.probe.expectedFinalUrl}`);
+      }
+
+      return this.complete(monitor, response.status, Date.now() - startTime, failureReasons);
+    } catch (error: any) {
+      return this.fail(monitor, error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // TCP, TLS and DNS probes share the timeout, latency and slow-threshold handling of HTTP checks
+  private async checkProtocol(monitor: MonitorConfig): Promise<HealthCheckResult> {
+    this.logger.debug(`[${monitor.id}] Running ${monitor.probe.type} probe`);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), monitor.timeoutSeconds * 1000);
+    const startTime = Date.now();
+
+    try {
+      const failureReasons = monitor.probe.type === 'dns'
+        ? await probeDns(monitor, controller.signal)
+        : await probeSocket(monitor, controller.signal);
+
+      return this.complete(monitor, null, Date.now() - startTime, failureReasons);
+    } catch (error: any) {
+      return this.fail(monitor, error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private complete(
+    monitor: MonitorConfig,
+    statusCode: number | null,
+    latencyMs: number,
+    failureReasons: string[]
+  ): HealthCheckResult {
+    let degraded = false;
+    if (monitor.slowThresholdMs !== null && latencyMs > monitor.slowThresholdMs) {
+      const slowReason = `Response took ${latencyMs}ms (slow threshold ${monitor.slowThresholdMs}ms)`;
+      if (monitor.slowCheckMode === 'failure') {
+        failureReasons.push(slowReason);
+      } else if (failureReasons.length === 0) {
+        degraded = true;
+        this.logger.warn(`[${monitor.id}] Health check degraded`, { reason: slowReason });
+      }
+    }
+
+    if (failureReasons.length === 0) {
+      this.logger.info(`[${monitor.id}] Health check passed`, { latencyMs });
+    } else {
+      this.logger.warn(`[${monitor.id}] Health check failed`, { status: statusCode, latencyMs, failureReasons });
+    }
+
+    return {
+      healthy: failureReasons.length === 0,
+      inconclusive: false,
+      degraded,
+      statusCode,
+      latencyMs,
+      failureReasons,
+    };
+  }
+
+  private fail(monitor: MonitorConfig, error: any): HealthCheckResult {
+    // TLS failures get their own prefix so they stand apart from timeouts in logs and history
+    let reason = `Request failed: ${error.message}`;
+    if (error.name === 'AbortError') {
+      reason = `Request timed out after ${monitor.timeoutSeconds}s`;
+    } else if (TLS_ERROR_PATTERN.test(error.message)) {
+      reason = `TLS error: ${error.message}`;
+    }
+    this.logger.warn(`[${monitor.id}] Health check failed`, { error: reason });
+
+    return {
+      healthy: false,
+      inconclusive: false,
+      degraded: false,
+      statusCode: null,
+      latencyMs: null,
+      failureReasons: [reason],
+    };
+  }
+}
+
+// The public URL, resolved to the origin hostname when an origin probe is configured
+export function getDefaultTarget(monitor: MonitorConfig): ProbeTarget {
+  if (!monitor.originProbe) {
+    return { url: monitor.monitorUrl };
+  }
+  return { url: monitor.monitorUrl, resolveOverride: monitor.originProbe.address };
+}
+
+// Returns a reason when the response is our own failover redirect (or the backup it leads to)
+export function detectOwnRedirect(
+  response: Response,
+  requestUrl: string,
+  failoverTargetUrls: string[]
+): string | null {
+  if (failoverTargetUrls.length === 0) {
+    return null;
+  }
+
+  const location = response.headers.get('Location');
+  if (response.status >= 300 && response.status < 400 && location) {
+    const resolved = new URL(location, requestUrl);
+    if (matchesTarget(resolved, failoverTargetUrls)) {
+      return `Response is a redirect to the failover target ${resolved.href}`;
+    }
+  }
+
+  if (response.redirected && response.url && matchesTarget(new URL(response.url), failoverTargetUrls)) {
+    return `Response was served by the failover target ${response.url}`;
+  }
+
+  return null;
+}
+
+function matchesTarget(url: URL, failoverTargetUrls: string[]): boolean {
+  return failoverTargetUrls.some(failoverTargetUrl => {
+    const target = new URL(failoverTargetUrl);
+    return url.origin === target.origin && url.pathname.startsWith(target.pathname.replace(/\/$/, ''));
+  });
+}
+
+// Rolling percentiles over the stored latency samples (nearest-rank method)
+export function summarizeLatency(samples: number[], lastMs: number | null): LatencySummary {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const percentile = (p: number) =>
+    sorted.length === 0 ? null : sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+  return {
+    sampleCount: sorted.length,
+    lastMs,
+    p50: percentile(50),
+    p95: percentile(95),
+    p99: percentile(99),
+  };
+}
+
+// Returns one reason per failed assertion; an empty list means healthy
+export async function evaluateAssertions(
+  response: Response,
+  assertions: HealthCheckAssertions
+): Promise<string[]> {
+  const reasons: string[] = [];
+
+  const statusCodes = assertions.statusCodes ?? DEFAULT_STATUS_CODES;
+  if (!statusCodes.some(code => statusMatches(response.status, code))) {
+    reasons.push(`Status ${response.status} not in allowed codes [${statusCodes.join(', ')}]`);
+  }
+
+  for (const header of assertions.requiredHeaders ?? []) {
+    const actual = response.headers.get(header.name);
+    if (actual === null) {
+      reasons.push(`Missing required header "${header.name}"`);
+    } else if (header.value !== undefined && actual !== header.value) {
+      reasons.push(`Header "${header.name}" is "${actual}", expected "${header.value}"`);
+    }
+  }
+
+  const needsBody = Boolean(
+    assertions.bodyContains?.length ||
+    assertions.bodyNotContains?.length ||
+    assertions.bodyMatches?.length ||
+    assertions.bodyNotMatches?.length ||
+    assertions.jsonPath?.length
+  );
+  if (!needsBody) {
+    return reasons;
+  }
+
+  const body = await response.text();
+
+  for (const text of assertions.bodyContains ?? []) {
+    if (!body.includes(text)) {
+      reasons.push(`Body does not contain "${text}"`);
+    }
+  }
+
+  for (const text of assertions.bodyNotContains ?? []) {
+    if (body.includes(text)) {
+      reasons.push(`Body contains forbidden text "${text}"`);
+    }
+  }
+
+  for (const pattern of assertions.bodyMatches ?? []) {
+    if (!new RegExp(pattern).test(body)) {
+      reasons.push(`Body does not match /${pattern}/`);
+    }
+  }
+
+  for (const pattern of assertions.bodyNotMatches ?? []) {
+    if (new RegExp(pattern).test(body)) {
+      reasons.push(`Body matches forbidden pattern /${pattern}/`);
+    }
+  }
+
+  if (assertions.jsonPath?.length) {
+    let json: unknown;
+    try {
+      json = JSON.parse(body);
+    } catch {
+      reasons.push('Body is not valid JSON');
+      return reasons;
+    }
+
+    for (const assertion of assertions.jsonPath) {
+      const actual = resolveJsonPath(json, assertion.path);
+      if (JSON.stringify(actual) !== JSON.stringify(assertion.equals)) {
+        reasons.push(
+          `JSON path ${assertion.path} is ${JSON.stringify(actual) ?? 'undefined'}, expected ${JSON.stringify(assertion.equals)}`
+        );
+      }
+    }
+  }
+
+  return reasons;
+}
+
+// Accepts 200, "200", "200-299" or "2xx"
+export function statusMatches(status: number, code: number | string): boolean {
+  if (typeof code === 'number') {
+    return status === code;
+  }
+
+  const classMatch = /^([1-5])xx$/i.exec(code);
+  if (classMatch) {
+    return Math.floor(status / 100) === Number(classMatch[1]);
+  }
+
+  const rangeMatch = /^(\d{3})-(\d{3})$/.exec(code);
+  if (rangeMatch) {
+    return status >= Number(rangeMatch[1]) && status <= Number(rangeMatch[2]);
+  }
+
+  return status === Number(code);
+}
+
+// Minimal JSON path: dot-separated keys with optional [index] segments and leading "$."
+export function parseJsonPath(path: string): (string | number)[] | null {
+  const trimmed = path.replace(/^\$\.?/, '');
+  if (!trimmed) {
+    return [];
+  }
+
+  const segments: (string | number)[] = [];
+  for (const part of trimmed.split('.')) {
+    const match = /^([^[\]]*)((?:\[\d+\])*)$/.exec(part);
+    if (!match || (!match[1] && !match[2])) {
+      return null;
+    }
+    if (match[1]) {
+      segments.push(match[1]);
+    }
+    for (const index of match[2].matchAll(/\[(\d+)\]/g)) {
+      segments.push(Number(index[1]));
+    }
+  }
+  return segments;
+}
+
+function resolveJsonPath(value: unknown, path: string): unknown {
+  let current: any = value;
+  for (const segment of parseJsonPath(path) ?? []) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
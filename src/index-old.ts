@@ -370,9 +370,6 @@ async function handleScheduled(env: Env) {
     const config = validatedConfig;
     const stateManager = new StateManager(env.MONITOR_STATE);
     
-    // Update cron execution time
-    await stateManager.updateCronExecution();
-    
     // Clean up expired maintenance windows
     await stateManager.cleanMaintenanceWindows();
     
@@ -450,7 +447,7 @@ async function handleScheduled(env: Env) {
             }
           } catch (error: any) {
             if (error.message === 'AUTHENTICATION_FAILED') {
-              await stateManager.disableApiCalls();
+              await stateManager.disableApiCalls('Cloudflare API rejected the token while trying to disable the redirect rule');
             } else {
               await stateManager.incrementApiErrors();
             }
@@ -458,7 +455,7 @@ async function handleScheduled(env: Env) {
         }
       }
     } else {
-      const newState = await stateManager.incrementFailure();
+      const newState = await stateManager.incrementFailure('Health check failed');
       logger.debug(`Failure count: ${newState.failureCount}`);
       
       // Check if we should enable the redirect rule
@@ -490,7 +487,7 @@ async function handleScheduled(env: Env) {
             }
           } catch (error: any) {
             if (error.message === 'AUTHENTICATION_FAILED') {
-              await stateManager.disableApiCalls();
+              await stateManager.disableApiCalls('Cloudflare API rejected the token while trying to enable the redirect rule');
             } else {
               await stateManager.incrementApiErrors();
             }
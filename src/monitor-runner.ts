@@ -0,0 +1,388 @@
+import type { CertificateState, Env, FailoverTierConfig, MonitorConfig, ValidatedConfig } from './types';
+import { Logger } from './logger';
+import { CloudflareAPIClient } from './cloudflare-api';
+import { StateManager, monitorObjectId } from './state-manager';
+import { HealthChecker } from './health-check';
+import { checkFailureTrigger, checkRecoveryTrigger } from './trigger';
+import { getFlapStatus } from './flap-detection';
+import { fetchCertificate, getCertificateStatus } from './certificate';
+import { TierSelector, getActiveTierIndex, updateTierAction } from './failover-tiers';
+import { reconcileFailoverActions } from './reconcile';
+import { createFailoverAction } from './failover-actions';
+import { enqueuePendingAction, hasPendingAction, retryPendingActions } from './outbox';
+import { verifyTransition } from './verification';
+import { applyRuntimeConfig, needsRedirectRule } from './runtime-config';
+
+const CERTIFICATE_CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+const TOKEN_VERIFY_INTERVAL_MS = 5 * 60 * 1000;
+
+// Run one health check cycle for a single monitor
+export async function runMonitorCheck(env: Env, config: ValidatedConfig, monitor: MonitorConfig, logger: Logger) {
+  try {
+    const stateManager = new StateManager(env.MONITOR_STATE, monitorObjectId(monitor.id));
+    
+    // Clean up expired maintenance windows
+    await stateManager.cleanMaintenanceWindows();
+    
+    // Get current state
+    let state = await stateManager.getState();
+    
+    // Without a redirect rule there is nothing to fail over to
+    monitor = applyRuntimeConfig(monitor, state.runtimeConfig);
+    if (needsRedirectRule(monitor)) {
+      logger.warn(
+        `[${monitor.id}] No redirect rule configured, skipping check. Set REDIRECT_RULE_ID or use POST /monitors/${monitor.id}/redirect-rule/provision`
+      );
+      return;
+    }
+    
+    const now = new Date();
+    const apiClient = new CloudflareAPIClient(
+      config.cloudflareApiToken,
+      monitor.zoneId,
+      config.accountId,
+      logger,
+      config.apiRetry
+    );
+    
+    // Check if API calls are disabled, and re-verify the token every few minutes
+    if (state.apiCallsDisabled) {
+      const verifyDue = !state.lastTokenVerifyTime ||
+        now.getTime() - new Date(state.lastTokenVerifyTime).getTime() >= TOKEN_VERIFY_INTERVAL_MS;
+      if (!verifyDue) {
+        logger.warn(`[${monitor.id}] API calls are disabled due to previous authentication failure`);
+        return;
+      }
+      await stateManager.recordTokenVerification();
+      if (!(await verifyApiAccess(monitor, apiClient, logger))) {
+        logger.warn(`[${monitor.id}] API calls are still disabled, the Cloudflare API token could not be verified`);
+        return;
+      }
+      logger.info(`[${monitor.id}] Cloudflare API token verified, re-enabling API calls`);
+      state = await stateManager.enableApiCalls();
+    }
+    
+    // Check if in maintenance mode
+    const isInMaintenanceWindow = state.scheduledMaintenanceWindows.some(
+      w => now >= new Date(w.startTime) && now <= new Date(w.endTime)
+    );
+    const maintenanceModeActive = state.maintenanceMode || isInMaintenanceWindow;
+    
+    // Compare the real failover actions with the stored state every reconcile interval
+    const reconcileDue = !state.lastReconcileTime ||
+      now.getTime() - new Date(state.lastReconcileTime).getTime() >= monitor.reconcileIntervalSeconds * 1000;
+    // In dry-run mode the stored state is not meant to match the real rules
+    if (monitor.reconcileIntervalSeconds > 0 && reconcileDue && !monitor.dryRun) {
+      state = await reconcileFailoverActions(monitor, state, apiClient, stateManager, logger, maintenanceModeActive);
+      if (state.apiCallsDisabled) {
+        return;
+      }
+    }
+    
+    // Retry tier changes that failed on earlier runs; maintenance mode holds them like any other change
+    if (state.pendingActions.length > 0 && !maintenanceModeActive) {
+      state = await retryPendingActions(monitor, state, apiClient, stateManager, logger, now);
+      if (state.apiCallsDisabled) {
+        return;
+      }
+    }
+    
+    // Check for flapping and dwell time since the last transition
+    const flap = getFlapStatus(monitor, state, now);
+    if (flap.flapping && !state.flappingSince) {
+      logger.warn(
+        `[${monitor.id}] Redirect rule is flapping (${flap.transitionsLastHour} transitions in the last hour), holding failover on`
+      );
+      await stateManager.setFlapping(true);
+    } else if (!flap.flapping && state.flappingSince) {
+      logger.info(`[${monitor.id}] Redirect rule is no longer flapping`);
+      await stateManager.setFlapping(false);
+    }
+    
+    // Certificate expiry is tracked separately and never counts towards failover
+    const certificateDue = !state.certificate ||
+      now.getTime() - new Date(state.certificate.checkedAt).getTime() >= CERTIFICATE_CHECK_INTERVAL_MS;
+    if (monitor.certificate && certificateDue) {
+      await refreshCertificate(monitor, state.certificate, stateManager, logger);
+    }
+    
+    // Perform health check
+    const checker = new HealthChecker(logger);
+    let result = await checker.check(monitor);
+    
+    // Re-probe a failure once before counting it, to filter out transient errors
+    let transientFailure = false;
+    let confirmed = false;
+    if (!result.healthy && !result.inconclusive && monitor.confirmation) {
+      await new Promise(resolve => setTimeout(resolve, monitor.confirmation!.delayMs));
+      const confirmation = await checker.check(
+        monitor,
+        monitor.confirmation.url ? { url: monitor.confirmation.url } : undefined
+      );
+      if (confirmation.healthy) {
+        logger.info(`[${monitor.id}] Failure not confirmed by re-probe, treating as transient`, {
+          initialFailure: result.failureReasons,
+        });
+        transientFailure = true;
+        result = confirmation;
+      } else if (confirmation.inconclusive) {
+        result = confirmation;
+      } else {
+        logger.warn(`[${monitor.id}] Failure confirmed by re-probe`);
+        confirmed = true;
+      }
+    }
+
+    // A response from our own redirect says nothing about the primary
+    if (result.inconclusive) {
+      logger.warn(`[${monitor.id}] Check not counted: ${result.failureReasons.join('; ')}`);
+      await stateManager.recordInconclusiveCheck();
+      return;
+    }
+
+    const isHealthy = result.healthy;
+    const tiers = new TierSelector(monitor, state, apiClient, stateManager, logger);
+    const activeIndex = getActiveTierIndex(monitor, state);
+    let ruleChanged = false;
+    
+    // Update counters
+    if (isHealthy) {
+      const newState = await stateManager.incrementRecovery({
+        latencyMs: result.latencyMs,
+        degraded: result.degraded,
+        transientFailure,
+      });
+      logger.debug(`[${monitor.id}] Recovery count: ${newState.recoveryCount}`);
+      const trigger = checkRecoveryTrigger(monitor, newState);
+      
+      // Check if we should disable the redirect rule
+      if (trigger.reached && state.redirectRuleEnabled) {
+        if (maintenanceModeActive) {
+          logger.info(
+            `[${monitor.id}] Would disable redirect rule (recovery threshold reached) but maintenance mode is active`
+          );
+        } else if (flap.flapping) {
+          logger.warn(
+            `[${monitor.id}] Would disable redirect rule (recovery threshold reached) but monitor is flapping, holding failover on`
+          );
+        } else if (flap.dwellRemainingSeconds > 0) {
+          logger.info(
+            `[${monitor.id}] Would disable redirect rule (recovery threshold reached) but dwell time has ${flap.dwellRemainingSeconds}s remaining`
+          );
+        } else if (hasPendingAction(state, false, monitor.tiers[activeIndex].name)) {
+          logger.info(`[${monitor.id}] Recovery threshold reached, deactivation is already pending a retry`);
+        } else {
+          const activeTier = monitor.tiers[activeIndex];
+          logger.info(`[${monitor.id}] Recovery threshold reached, deactivating tier "${activeTier.name}"`);
+          ruleChanged = true;
+          
+          if (await updateTierAction(monitor, apiClient, stateManager, logger, activeTier, false)) {
+            const updated = await stateManager.updateRedirectRuleState(false, trigger.reason, activeTier.name, monitor.dryRun);
+            // Reset counters after successfully disabling redirect rule
+            await stateManager.resetCounters();
+            logger.info(`[${monitor.id}] Counters reset after disabling redirect rule`);
+            await verifyTransition(monitor, stateManager, logger, updated.redirectRuleHistory[0], activeTier, false);
+          } else {
+            await enqueuePendingAction(monitor, stateManager, logger, activeTier, false, trigger.reason, now);
+          }
+        }
+      }
+    } else {
+      const newState = await stateManager.incrementFailure(result.failureReasons.join('; '), {
+        latencyMs: result.latencyMs,
+        confirmed,
+      });
+      logger.debug(`[${monitor.id}] Failure count: ${newState.failureCount}`);
+      const trigger = checkFailureTrigger(monitor, newState);
+      
+      // Check if we should enable the redirect rule
+      if (trigger.reached && !state.redirectRuleEnabled) {
+        if (maintenanceModeActive) {
+          logger.info(
+            `[${monitor.id}] Would enable redirect rule (failure threshold reached) but maintenance mode is active`
+          );
+        } else if (flap.dwellRemainingSeconds > 0 && !flap.flapping) {
+          // While flapping, failover is held on, so enabling is never delayed
+          logger.info(
+            `[${monitor.id}] Would enable redirect rule (failure threshold reached) but dwell time has ${flap.dwellRemainingSeconds}s remaining`
+          );
+        } else if (hasPendingAction(state, true)) {
+          logger.info(`[${monitor.id}] Failure threshold reached, failover is already pending a retry`);
+        } else {
+          ruleChanged = true;
+          const tier = await tiers.select();
+          const health = tier ? await tiers.probe(tier) : null;
+          
+          if (!tier) {
+            logger.error(
+              `[${monitor.id}] Would enable redirect rule (failure threshold reached) but every failover tier is also unhealthy, deferring failover`
+            );
+            await stateManager.recordFailoverDeferred();
+          } else {
+            if (health && !health.healthy) {
+              logger.error(`[${monitor.id}] Tier "${tier.name}" (${health.url}) is unhealthy, failing over anyway`, {
+                reason: health.failureReason,
+              });
+            }
+            logger.info(`[${monitor.id}] Failure threshold reached, activating tier "${tier.name}"`);
+            
+            if (await updateTierAction(monitor, apiClient, stateManager, logger, tier, true)) {
+              const updated = await stateManager.updateRedirectRuleState(
+                true,
+                `${trigger.reason}: ${newState.lastFailureReason}`,
+                tier.name,
+                monitor.dryRun
+              );
+              // Reset counters after successfully enabling redirect rule
+              await stateManager.resetCounters();
+              logger.info(`[${monitor.id}] Counters reset after enabling redirect rule`);
+              await verifyTransition(monitor, stateManager, logger, updated.redirectRuleHistory[0], tier, true);
+            } else {
+              await enqueuePendingAction(
+                monitor,
+                stateManager,
+                logger,
+                tier,
+                true,
+                `${trigger.reason}: ${newState.lastFailureReason}`,
+                now
+              );
+            }
+          }
+        }
+      } else if (!state.redirectRuleEnabled) {
+        // Keep tier health current while the primary is failing
+        await tiers.select();
+      }
+    }
+    
+    // While failed over, move down when the active tier fails and back up when a better one recovers
+    if (state.redirectRuleEnabled && !ruleChanged && !maintenanceModeActive) {
+      const activeTier = monitor.tiers[activeIndex];
+      const best = await tiers.select();
+      const bestIndex = best ? monitor.tiers.indexOf(best) : -1;
+      
+      if (best && bestIndex > activeIndex) {
+        const health = await tiers.probe(activeTier);
+        await switchTier(
+          monitor,
+          apiClient,
+          stateManager,
+          logger,
+          activeTier,
+          best,
+          `Tier "${activeTier.name}" is unhealthy (${health?.failureReason}), switching to tier "${best.name}"`
+        );
+      } else if (best && bestIndex !== -1 && bestIndex < activeIndex) {
+        if (flap.flapping || flap.dwellRemainingSeconds > 0) {
+          logger.info(
+            `[${monitor.id}] Tier "${best.name}" is healthy again but flap control is holding tier "${activeTier.name}"`
+          );
+        } else {
+          await switchTier(
+            monitor,
+            apiClient,
+            stateManager,
+            logger,
+            activeTier,
+            best,
+            `Tier "${best.name}" is healthy again, switching back from tier "${activeTier.name}"`
+          );
+        }
+      }
+    }
+  } catch (error: any) {
+    logger.error(`[${monitor.id}] Health check cycle failed`, { error: error.message });
+  }
+}
+
+// Activate the new tier before deactivating the old one, so visitors are always sent somewhere
+async function switchTier(
+  monitor: MonitorConfig,
+  apiClient: CloudflareAPIClient,
+  stateManager: StateManager,
+  logger: Logger,
+  from: FailoverTierConfig,
+  to: FailoverTierConfig,
+  reason: string
+) {
+  logger.warn(`[${monitor.id}] ${reason}`);
+  if (!(await updateTierAction(monitor, apiClient, stateManager, logger, to, true))) {
+    return;
+  }
+  // A deactivation left over from an earlier switch away from this tier no longer applies
+  await stateManager.removePendingAction(to.name);
+  if (!(await updateTierAction(monitor, apiClient, stateManager, logger, from, false))) {
+    logger.error(`[${monitor.id}] Could not deactivate tier "${from.name}" after switching to "${to.name}"`);
+    await enqueuePendingAction(monitor, stateManager, logger, from, false, `Left active after switching to tier "${to.name}"`);
+  }
+  const updated = await stateManager.updateRedirectRuleState(true, reason, to.name, monitor.dryRun);
+  await verifyTransition(monitor, stateManager, logger, updated.redirectRuleHistory[0], to, true);
+}
+
+// The token must verify and be able to read the first tier's rule, record or pool
+async function verifyApiAccess(monitor: MonitorConfig, apiClient: CloudflareAPIClient, logger: Logger): Promise<boolean> {
+  if (!(await apiClient.verifyToken())) {
+    return false;
+  }
+  const action = createFailoverAction(monitor, monitor.tiers[0], apiClient, logger);
+  try {
+    await action.getStatus?.();
+    return true;
+  } catch (error: any) {
+    logger.warn(`[${monitor.id}] Token verified but the ${action.description} could not be read`, { error: error.message });
+    return false;
+  }
+}
+
+// Re-read the origin certificate and warn once per expiry threshold crossed
+async function refreshCertificate(
+  monitor: MonitorConfig,
+  previous: CertificateState | null,
+  stateManager: StateManager,
+  logger: Logger
+) {
+  const { host, port, serverName } = monitor.certificate!;
+  const certificate: CertificateState = {
+    checkedAt: new Date().toISOString(),
+    info: previous?.info ?? null,
+    error: null,
+    warnedAtDays: previous?.warnedAtDays ?? null,
+  };
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), monitor.timeoutSeconds * 1000);
+  try {
+    certificate.info = await fetchCertificate(host, port, serverName, controller.signal);
+    logger.debug(`[${monitor.id}] Read origin certificate`, { validTo: certificate.info.validTo });
+  } catch (error: any) {
+    certificate.error = error.name === 'AbortError'
+      ? `Timed out after ${monitor.timeoutSeconds}s`
+      : error.message;
+    logger.info(`[${monitor.id}] Could not read origin certificate from ${host}:${port}`, { error: certificate.error });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  const status = getCertificateStatus(monitor, certificate);
+  if (certificate.info && status.daysRemaining !== null && status.daysRemaining < 0) {
+    logger.error(`[${monitor.id}] Origin certificate expired on ${certificate.info.validTo}`, {
+      issuer: certificate.info.issuer,
+    });
+  } else if (
+    certificate.info &&
+    status.warnThresholdDays !== null &&
+    (certificate.warnedAtDays === null || status.warnThresholdDays < certificate.warnedAtDays)
+  ) {
+    logger.warn(`[${monitor.id}] Origin certificate expires in ${status.daysRemaining} days`, {
+      validTo: certificate.info.validTo,
+      issuer: certificate.info.issuer,
+      subjectAltNames: certificate.info.subjectAltNames,
+    });
+  }
+  // Cleared again once a renewed certificate is seen
+  certificate.warnedAtDays = status.warnThresholdDays;
+
+  await stateManager.updateCertificate(certificate);
+}
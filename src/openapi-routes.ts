@@ -1,18 +1,109 @@
 import { createRoute, OpenAPIHono, z } from '@hono/zod-openapi';
-import type { Env, MaintenanceWindow } from './types';
-import { StateManager } from './state-manager';
-import { validateEnvironment } from './validation';
-import { CloudflareAPIClient } from './cloudflare-api';
+import type { Env, FailoverActionConfig, MaintenanceWindow, MonitorConfig, ValidatedConfig } from './types';
+import { StateManager, monitorObjectId } from './state-manager';
+import { DEFAULT_MONITOR_ID, validateEnvironment } from './validation';
+import {
+  CloudflareAPIClient,
+  CloudflareAuthError,
+  CloudflareNotFoundError,
+  CloudflareRateLimitError,
+  CloudflareValidationError,
+} from './cloudflare-api';
+import type { RedirectRuleInfo, RedirectTargetChange } from './cloudflare-api';
 import { Logger } from './logger';
+import { summarizeLatency } from './health-check';
+import { getWindowCounts } from './trigger';
+import { getFlapStatus } from './flap-detection';
+import { getCertificateStatus } from './certificate';
+import { getActiveTierIndex } from './failover-tiers';
+import { createFailoverAction } from './failover-actions';
+import type { FailoverActionStatus } from './failover-actions';
+import { verifyTransition } from './verification';
+import { applyRuntimeConfig, needsRedirectRule } from './runtime-config';
+import { DEFAULT_FALLBACK_PAGE, MAX_FALLBACK_PAGE_BYTES } from './fallback-page';
+import { forgetSiteState } from './site-front';
 
 // Schema definitions
+const MonitorParamsSchema = z.object({
+  monitorId: z.string().describe('Monitor ID from the MONITORS registry ("default" for single-site setups)'),
+});
+
+const MonitorsResponseSchema = z.object({
+  monitors: z.array(z.object({
+    id: z.string(),
+    monitorUrl: z.string(),
+    actionType: z.enum(['redirect-rule', 'dns-record', 'load-balancer-pool', 'http', 'fallback-page', 'proxy']).describe('Failover action of the first tier'),
+    redirectRuleId: z.string().nullable().describe('Redirect rule of the first tier (null for other action types)'),
+    rulesetId: z.string().nullable().describe('Ruleset containing the redirect rule (null: redirectRuleId is a whole ruleset)'),
+    redirectRuleEnabled: z.boolean(),
+    dryRun: z.boolean(),
+    maintenanceMode: z.boolean(),
+    lastCheckTime: z.string().nullable(),
+  })),
+});
+
+const LatencySummarySchema = z.object({
+  sampleCount: z.number().describe('Number of recent checks the percentiles are computed over'),
+  lastMs: z.number().nullable().describe('Response time of the most recent check that got a response'),
+  p50: z.number().nullable(),
+  p95: z.number().nullable(),
+  p99: z.number().nullable(),
+});
+
+const BackupHealthSchema = z.object({
+  url: z.string().describe('Failover destination that was probed'),
+  healthy: z.boolean(),
+  checkedAt: z.string().describe('ISO8601 time of the last probe (made while the primary fails or the redirect rule is enabled)'),
+  failureReason: z.string().nullable(),
+  latencyMs: z.number().nullable(),
+}).nullable().describe('Health of the failover destination (null until first probed)');
+
+const FailoverActionSchema = z.object({
+  type: z.enum(['redirect-rule', 'dns-record', 'load-balancer-pool', 'http', 'fallback-page', 'proxy']),
+  redirectRuleId: z.string().optional(),
+  rulesetId: z.string().nullable().optional(),
+  recordId: z.string().optional(),
+  primaryContent: z.string().optional(),
+  failoverContent: z.string().optional(),
+  poolId: z.string().optional(),
+  originName: z.string().nullable().optional(),
+  url: z.string().optional(),
+  method: z.string().optional(),
+  backupOrigin: z.string().optional(),
+  timeoutMs: z.number().optional(),
+  fallbackOnError: z.boolean().optional(),
+}).describe('How the tier takes traffic (HTTP action headers are not shown)');
+
+const FailoverTierSchema = z.object({
+  name: z.string(),
+  action: FailoverActionSchema,
+  targetUrl: z.string().nullable(),
+  active: z.boolean().describe('Whether this tier\'s failover action is the one active'),
+  health: BackupHealthSchema,
+});
+
+const TransitionVerificationSchema = z.object({
+  verifiedAt: z.string(),
+  passed: z.boolean().describe('Whether the public URL redirected (or stopped redirecting) as expected'),
+  attempts: z.number(),
+  statusCode: z.number().nullable().describe('Status of the last response (null when the request failed)'),
+  location: z.string().nullable().describe('Location header of the last response'),
+  failureReason: z.string().nullable(),
+});
+
 const StatusResponseSchema = z.object({
+  monitorId: z.string().describe('Monitor ID'),
   monitorUrl: z.string().describe('URL being monitored for health checks'),
   failureCount: z.number().describe('Current consecutive failures (resets to 0 after redirect rule is enabled or after recovery)'),
   recoveryCount: z.number().describe('Current consecutive successes (resets to 0 after redirect rule is disabled or after failure)'),
   lastCheckTime: z.string().nullable().describe('ISO8601 timestamp of last health check execution'),
-  nextCheckTime: z.string().describe('ISO8601 timestamp of next scheduled cron execution'),
-  redirectRuleEnabled: z.boolean().describe('Current state of redirect rule (true = enabled/active, false = disabled/inactive)'),
+  lastFailureReason: z.string().nullable().describe('Failed assertions or request error from the most recent failed health check'),
+  lastFailureTime: z.string().nullable().describe('ISO8601 timestamp of the most recent failed health check'),
+  nextCheckTime: z.string().nullable().describe('ISO8601 timestamp of the next check scheduled by the Durable Object alarm (null until the watchdog first arms it)'),
+  redirectRuleEnabled: z.boolean().describe('Current state of redirect rule (true = enabled/active, false = disabled/inactive). In dry-run mode, the state the worker would have set'),
+  dryRun: z.boolean().describe('Whether failover decisions are only recorded, without changing any rule'),
+  degraded: z.boolean().describe('Whether the last check passed but exceeded the slow threshold (slowCheckMode "degraded")'),
+  latency: LatencySummarySchema.describe('Rolling response-time percentiles in milliseconds'),
   maintenanceMode: z.boolean().describe('Whether immediate maintenance mode is currently active (bypasses health checks)'),
   scheduledMaintenanceWindows: z.array(z.object({
     id: z.string(),
@@ -24,7 +115,64 @@ const StatusResponseSchema = z.object({
     failureCountThreshold: z.number(),
     recoveryCountThreshold: z.number(),
     timeoutSeconds: z.number(),
+    checkIntervalSeconds: z.number(),
+    slowThresholdMs: z.number().nullable(),
+    slowCheckMode: z.enum(['failure', 'degraded']),
+    triggerMode: z.enum(['consecutive', 'window']).describe('consecutive: N checks in a row; window: X of the last N checks'),
+    windowSize: z.number(),
+    windowFailureThreshold: z.number(),
+    windowRecoveryThreshold: z.number(),
+  }),
+  flapControl: z.object({
+    flapping: z.boolean().describe('Whether the redirect rule changed too often in the last hour; failover is held on while true'),
+    flappingSince: z.string().nullable(),
+    transitionsLastHour: z.number(),
+    maxTransitionsPerHour: z.number().nullable(),
+    lastTransitionTime: z.string().nullable(),
+    minDwellSeconds: z.number(),
+    dwellUntil: z.string().nullable().describe('ISO8601 time before which no further transition is made'),
+    dwellRemainingSeconds: z.number(),
+  }).describe('Dwell time and flap detection status'),
+  window: z.object({
+    checks: z.number(),
+    failures: z.number(),
+    successes: z.number(),
+  }).describe('Outcomes of the last windowSize checks (used when triggerMode is "window")'),
+  certificate: z.object({
+    checkedAt: z.string().describe('ISO8601 time of the last read attempt (repeated every 6 hours)'),
+    subject: z.string().nullable(),
+    issuer: z.string().nullable(),
+    validFrom: z.string().nullable(),
+    validTo: z.string().nullable(),
+    subjectAltNames: z.array(z.string()),
+    daysRemaining: z.number().nullable(),
+    warnDays: z.array(z.number()),
+    warning: z.boolean().describe('Whether expiry is within one of the warnDays thresholds'),
+    error: z.string().nullable().describe('Why the last read failed; the previous certificate details are kept'),
+  }).nullable().describe('Origin TLS certificate (null when disabled or not read yet)'),
+  failover: z.object({
+    activeTier: z.string().nullable().describe('Name of the failover tier currently receiving traffic'),
+    tiers: z.array(FailoverTierSchema).describe('Failover destinations in priority order'),
   }),
+  reconciliation: z.object({
+    driftPolicy: z.enum(['adopt', 'restore']).describe('adopt: accept manual rule changes; restore: undo them'),
+    reconcileIntervalSeconds: z.number().describe('How often the real redirect rules are compared with the stored state (0 = disabled)'),
+    lastReconcileTime: z.string().nullable(),
+    driftEventsTotal: z.number(),
+  }).describe('Drift detection between the stored state and the real redirect rules'),
+  apiCalls: z.object({
+    disabled: z.boolean().describe('Whether Cloudflare API calls are stopped after an authentication failure'),
+    disabledReason: z.string().nullable(),
+    disabledSince: z.string().nullable(),
+    lastTokenVerifyTime: z.string().nullable().describe('Last automatic re-verification of the token (every 5 minutes while disabled)'),
+  }),
+  verification: z.object({
+    enabled: z.boolean(),
+    delayMs: z.number().nullable().describe('Wait before each verification attempt'),
+    attempts: z.number().nullable(),
+    lastVerification: TransitionVerificationSchema.nullable(),
+    verificationFailuresTotal: z.number(),
+  }).describe('Checks that the public URL follows each transition'),
 });
 
 const HealthResponseSchema = z.object({
@@ -32,26 +180,119 @@ const HealthResponseSchema = z.object({
   durableObjectsAvailable: z.boolean().describe('Whether Durable Objects are accessible'),
   lastCronExecution: z.string().nullable().describe('ISO8601 timestamp of last cron execution'),
   uptimeSeconds: z.number().describe('Worker uptime in seconds'),
+  apiCallsDisabled: z.array(z.object({
+    monitorId: z.string(),
+    reason: z.string().nullable(),
+    since: z.string().nullable(),
+  })).describe('Monitors whose Cloudflare API calls are stopped after an authentication failure'),
+  verificationFailed: z.array(z.object({
+    monitorId: z.string(),
+    verifiedAt: z.string(),
+    reason: z.string().nullable(),
+  })).describe('Monitors whose most recent transition did not take effect on the public URL'),
   error: z.string().optional(),
 });
 
+const RedirectTargetSchema = z.object({
+  expression: z.string().describe('Rule expression selecting the redirected requests'),
+  targetUrl: z.string().nullable().describe('Static target URL (null for expression-based targets)'),
+  targetExpression: z.string().nullable().describe('Dynamic target expression (null for static targets)'),
+  statusCode: z.number().nullable(),
+  preserveQueryString: z.boolean(),
+});
+
 const RedirectRuleResponseSchema = z.object({
-  id: z.string().describe('Cloudflare rule ID'),
-  status: z.enum(['active', 'inactive']).describe('Current rule status: active (enabled) or inactive (disabled)'),
-  lastModified: z.string().describe('ISO8601 timestamp when rule was last modified in Cloudflare'),
+  id: z.string().describe('Cloudflare rule, DNS record or load balancer pool ID'),
+  actionType: z.enum(['redirect-rule', 'dns-record', 'load-balancer-pool', 'http', 'fallback-page', 'proxy']),
+  status: z.enum(['active', 'inactive']).describe('Current status: active (failed over) or inactive'),
+  lastModified: z.string().nullable().describe('ISO8601 timestamp when the rule, record or pool was last modified in Cloudflare'),
   lastChecked: z.string().describe('ISO8601 timestamp when this status was fetched'),
+  tier: z.string().describe('Failover tier the rule belongs to (the active tier, or the first tier when not failed over)'),
+  targetUrl: z.string().nullable().describe('Static target URL of the redirect (null for expression-based targets)'),
+  expression: z.string().nullable().describe('Rule expression selecting the redirected requests (null for other action types)'),
+  targetExpression: z.string().nullable().describe('Dynamic target expression (null for static targets and other action types)'),
+  statusCode: z.number().nullable().describe('Redirect status code (null for other action types)'),
+  preserveQueryString: z.boolean().nullable().describe('Whether the query string is kept (null for other action types)'),
+  backup: BackupHealthSchema,
+});
+
+const UpdateRedirectRuleRequestSchema = z.object({
+  tier: z.string().optional().describe('Failover tier whose rule to edit (default: the active tier, or the first tier when not failed over)'),
+  expression: z.string().optional().describe('New rule expression'),
+  targetUrl: z.string().optional().describe('New static target URL'),
+  targetExpression: z.string().optional().describe('New dynamic target expression (instead of targetUrl)'),
+  statusCode: z.number().optional().describe('301, 302, 307 or 308'),
+  preserveQueryString: z.boolean().optional(),
+});
+
+const UpdateRedirectRuleResponseSchema = z.object({
+  success: z.boolean(),
+  tier: z.string(),
+  ruleId: z.string(),
+  previous: RedirectTargetSchema.describe('Settings before the change, also recorded in the history'),
+  updated: RedirectTargetSchema,
+  message: z.string(),
 });
 
 const RedirectRuleHistorySchema = z.object({
   history: z.array(z.object({
     timestamp: z.string(),
-    event: z.enum(['enabled', 'disabled']),
+    event: z.enum(['enabled', 'disabled', 'switched', 'drift', 'edited']).describe('switched: traffic moved to another failover tier; drift: a rule was changed outside the worker; edited: the redirect target was changed via the API'),
     reason: z.string(),
+    tier: z.string().optional().describe('Failover tier activated or deactivated'),
+    dryRun: z.boolean().optional().describe('true when the change was only recorded in dry-run mode, not made'),
+    verification: TransitionVerificationSchema.optional().describe('Request to the public URL after the change (redirect rule tiers only)'),
+    previousTarget: RedirectTargetSchema.optional().describe('For edited events: the settings before the edit, to roll it back'),
+    target: RedirectTargetSchema.optional().describe('For edited events: the settings after the edit'),
     failureCount: z.number(),
     recoveryCount: z.number(),
   })),
 });
 
+const ProvisionRedirectRuleRequestSchema = z.object({
+  hostname: z.string().optional().describe('Hostname whose requests are redirected (default: the monitor URL hostname)'),
+  targetUrl: z.string().optional().describe('Failover target (default: the monitor\'s failoverTargetUrl)'),
+  statusCode: z.number().optional().describe('301, 302, 307 or 308 (default: 302)'),
+  preserveQueryString: z.boolean().optional().describe('Append the original query string to the target (default: true)'),
+});
+
+const ProvisionRedirectRuleResponseSchema = z.object({
+  success: z.boolean(),
+  ruleId: z.string(),
+  rulesetId: z.string(),
+  rule: z.object({
+    id: z.string(),
+    enabled: z.boolean().describe('Always false; the worker enables the rule on failover'),
+    lastModified: z.string(),
+    targetUrl: z.string().nullable(),
+  }),
+  message: z.string(),
+});
+
+const PendingActionsResponseSchema = z.object({
+  pendingActions: z.array(z.object({
+    tier: z.string().describe('Failover tier to change'),
+    active: z.boolean().describe('true to activate the tier, false to deactivate it'),
+    reason: z.string().describe('Recorded in the history once the change succeeds'),
+    createdAt: z.string(),
+    attempts: z.number().describe('Attempts so far, including the original one'),
+    lastAttemptAt: z.string(),
+    nextAttemptAt: z.string().describe('Activations are retried on every check; deactivations back off from 1 minute up to 30 minutes'),
+  })),
+});
+
+const FallbackPageResponseSchema = z.object({
+  html: z.string(),
+  retryAfterSeconds: z.number().describe('Sent as the Retry-After header with the 503'),
+  updatedAt: z.string().nullable().describe('null while the built-in page is served'),
+  serving: z.boolean().describe('Whether visitors currently get this page'),
+});
+
+const FallbackPageRequestSchema = z.object({
+  html: z.string().describe(`Complete HTML document, at most ${MAX_FALLBACK_PAGE_BYTES / 1024} KiB`),
+  retryAfterSeconds: z.number().int().min(0).max(86400).optional().describe('Defaults to the current value (300 for the built-in page)'),
+});
+
 const SuccessResponseSchema = z.object({
   success: z.boolean(),
   message: z.string(),
@@ -103,6 +344,46 @@ const ErrorResponseSchema = z.object({
   error: z.string(),
 });
 
+const MonitorNotFoundResponse = {
+  content: {
+    'application/json': {
+      schema: ErrorResponseSchema,
+    },
+  },
+  description: 'Monitor not found',
+};
+
+interface MonitorContext {
+  config: ValidatedConfig;
+  monitor: MonitorConfig;
+  stateManager: StateManager;
+}
+
+// Action settings for the status response; HTTP headers may hold secrets and are left out
+function describeAction(action: FailoverActionConfig) {
+  if (action.type === 'http') {
+    return { type: action.type, url: action.url, method: action.method };
+  }
+  return action;
+}
+
+// Resolve the monitor named in the request path against the registry, with any
+// redirect rule provisioned through the API filled in
+async function resolveMonitor(env: Env, monitorId: string, logger: Logger = new Logger()): Promise<MonitorContext | null> {
+  const config = validateEnvironment(env, logger);
+  const monitor = config.monitors.find(m => m.id === monitorId);
+  if (!monitor) {
+    return null;
+  }
+  const stateManager = new StateManager(env.MONITOR_STATE, monitorObjectId(monitor.id));
+  const { runtimeConfig } = await stateManager.getState();
+  return {
+    config,
+    monitor: applyRuntimeConfig(monitor, runtimeConfig),
+    stateManager,
+  };
+}
+
 // Create OpenAPI app
 export const api = new OpenAPIHono<{ Bindings: Env }>();
 
@@ -163,31 +444,62 @@ const healthRoute = createRoute({
 
 api.openapi(healthRoute, async (c) => {
   try {
-    const stateManager = new StateManager(c.env.MONITOR_STATE);
-    const state = await stateManager.getState();
+    const config = validateEnvironment(c.env, new Logger());
+    const states = await Promise.all(
+      config.monitors.map(m => new StateManager(c.env.MONITOR_STATE, monitorObjectId(m.id)).getState())
+    );
     
     const now = new Date();
-    const uptimeSeconds = state.workerStartTime 
-      ? Math.floor((now.getTime() - new Date(state.workerStartTime).getTime()) / 1000)
+    const earliestStart = Math.min(...states.map(s => new Date(s.workerStartTime).getTime()));
+    const uptimeSeconds = Number.isFinite(earliestStart)
+      ? Math.floor((now.getTime() - earliestStart) / 1000)
       : 0;
     
-    const lastCronAge = state.lastCronExecution
-      ? Math.floor((now.getTime() - new Date(state.lastCronExecution).getTime()) / 1000)
+    // The worker is only as healthy as its most stale monitor
+    const lastCronExecution = states.some(s => !s.lastCronExecution)
+      ? null
+      : states
+          .map(s => s.lastCronExecution as string)
+          .reduce((oldest, t) => (new Date(t) < new Date(oldest) ? t : oldest));
+    
+    const lastCronAge = lastCronExecution
+      ? Math.floor((now.getTime() - new Date(lastCronExecution).getTime()) / 1000)
       : null;
     
     let status: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
     
-    if (!state.lastCronExecution) {
+    const apiCallsDisabled = config.monitors
+      .map((monitor, index) => ({ monitor, state: states[index] }))
+      .filter(({ state }) => state.apiCallsDisabled)
+      .map(({ monitor, state }) => ({
+        monitorId: monitor.id,
+        reason: state.apiCallsDisabledReason,
+        since: state.apiCallsDisabledSince,
+      }));
+    
+    const verificationFailed = config.monitors
+      .map((monitor, index) => ({ monitor, state: states[index] }))
+      .filter(({ state }) => state.lastVerification && !state.lastVerification.passed)
+      .map(({ monitor, state }) => ({
+        monitorId: monitor.id,
+        verifiedAt: state.lastVerification!.verifiedAt,
+        reason: state.lastVerification!.failureReason,
+      }));
+    
+    if (!lastCronExecution || apiCallsDisabled.length > 0 || verificationFailed.length > 0) {
       status = 'degraded';
-    } else if (lastCronAge && lastCronAge > 120) {
+    }
+    if (lastCronAge && lastCronAge > 120) {
       status = 'unhealthy';
     }
     
     return c.json({
       status,
       durableObjectsAvailable: true,
-      lastCronExecution: state.lastCronExecution,
+      lastCronExecution,
       uptimeSeconds,
+      apiCallsDisabled,
+      verificationFailed,
     });
   } catch (error: any) {
     return c.json({
@@ -195,19 +507,78 @@ api.openapi(healthRoute, async (c) => {
       durableObjectsAvailable: false,
       lastCronExecution: null,
       uptimeSeconds: 0,
+      apiCallsDisabled: [],
+      verificationFailed: [],
       error: error.message,
     }, 503);
   }
 });
 
+// Monitor registry endpoint
+const monitorsRoute = createRoute({
+  method: 'get',
+  path: '/monitors',
+  tags: ['Monitoring'],
+  summary: 'List monitors',
+  description: 'Returns every monitor in the registry with its current redirect rule and maintenance state.',
+  security: [{ Bearer: [] }],
+  responses: {
+    200: {
+      content: {
+        'application/json': {
+          schema: MonitorsResponseSchema,
+        },
+      },
+      description: 'Configured monitors',
+    },
+    500: {
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+      description: 'Internal error',
+    },
+  },
+});
+
+api.openapi(monitorsRoute, async (c) => {
+  try {
+    const config = validateEnvironment(c.env, new Logger());
+    
+    const monitors = await Promise.all(config.monitors.map(async (configured) => {
+      const state = await new StateManager(c.env.MONITOR_STATE, monitorObjectId(configured.id)).getState();
+      const monitor = applyRuntimeConfig(configured, state.runtimeConfig);
+      return {
+        id: monitor.id,
+        monitorUrl: monitor.monitorUrl,
+        actionType: monitor.tiers[0].action.type,
+        redirectRuleId: monitor.tiers[0].action.type === 'redirect-rule' ? monitor.tiers[0].action.redirectRuleId : null,
+        rulesetId: monitor.tiers[0].action.type === 'redirect-rule' ? monitor.tiers[0].action.rulesetId : null,
+        redirectRuleEnabled: state.redirectRuleEnabled,
+        dryRun: monitor.dryRun,
+        maintenanceMode: state.maintenanceMode,
+        lastCheckTime: state.lastCheckTime,
+      };
+    }));
+    
+    return c.json({ monitors });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
 // Status endpoint
 const statusRoute = createRoute({
   method: 'get',
-  path: '/status',
+  path: '/monitors/{monitorId}/status',
   tags: ['Monitoring'],
   summary: 'Get monitoring status',
   description: 'Returns current monitoring status including counters and thresholds.',
   security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
   responses: {
     200: {
       content: {
@@ -233,34 +604,100 @@ const statusRoute = createRoute({
       },
       description: 'Internal error',
     },
+    404: MonitorNotFoundResponse,
   },
 });
 
 api.openapi(statusRoute, async (c) => {
   try {
-    const stateManager = new StateManager(c.env.MONITOR_STATE);
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { monitor, stateManager } = ctx;
     const state = await stateManager.getState();
     
-    const config = validateEnvironment(c.env, new Logger());
-    
     const now = new Date();
-    const nextCheckTime = state.lastCheckTime
-      ? new Date(new Date(state.lastCheckTime).getTime() + 60000).toISOString()
-      : new Date(now.getTime() + 60000).toISOString();
+    const certificate = getCertificateStatus(monitor, state.certificate, now);
+    const activeIndex = getActiveTierIndex(monitor, state);
     
     return c.json({
-      monitorUrl: config.monitorUrl,
+      monitorId: monitor.id,
+      monitorUrl: monitor.monitorUrl,
       failureCount: state.failureCount,
       recoveryCount: state.recoveryCount,
       lastCheckTime: state.lastCheckTime,
-      nextCheckTime,
+      lastFailureReason: state.lastFailureReason,
+      lastFailureTime: state.lastFailureTime,
+      nextCheckTime: state.nextCheckTime,
       redirectRuleEnabled: state.redirectRuleEnabled,
+      dryRun: monitor.dryRun,
+      degraded: state.degraded,
+      latency: summarizeLatency(state.latencySamples, state.lastLatencyMs),
       maintenanceMode: state.maintenanceMode,
       scheduledMaintenanceWindows: state.scheduledMaintenanceWindows,
       thresholds: {
-        failureCountThreshold: config.failureCountThreshold,
-        recoveryCountThreshold: config.recoveryCountThreshold,
-        timeoutSeconds: config.timeoutSeconds,
+        failureCountThreshold: monitor.failureCountThreshold,
+        recoveryCountThreshold: monitor.recoveryCountThreshold,
+        timeoutSeconds: monitor.timeoutSeconds,
+        checkIntervalSeconds: monitor.checkIntervalSeconds,
+        slowThresholdMs: monitor.slowThresholdMs,
+        slowCheckMode: monitor.slowCheckMode,
+        triggerMode: monitor.triggerMode,
+        windowSize: monitor.windowSize,
+        windowFailureThreshold: monitor.windowFailureThreshold,
+        windowRecoveryThreshold: monitor.windowRecoveryThreshold,
+      },
+      flapControl: {
+        ...getFlapStatus(monitor, state, now),
+        flappingSince: state.flappingSince,
+        maxTransitionsPerHour: monitor.maxTransitionsPerHour,
+        minDwellSeconds: monitor.minDwellSeconds,
+      },
+      window: getWindowCounts(monitor, state),
+      certificate: monitor.certificate && state.certificate
+        ? {
+            checkedAt: state.certificate.checkedAt,
+            subject: state.certificate.info?.subject ?? null,
+            issuer: state.certificate.info?.issuer ?? null,
+            validFrom: state.certificate.info?.validFrom ?? null,
+            validTo: state.certificate.info?.validTo ?? null,
+            subjectAltNames: state.certificate.info?.subjectAltNames ?? [],
+            daysRemaining: certificate.daysRemaining,
+            warnDays: monitor.certificate.warnDays,
+            warning: certificate.warnThresholdDays !== null,
+            error: state.certificate.error,
+          }
+        : null,
+      failover: {
+        activeTier: monitor.tiers[activeIndex]?.name ?? null,
+        tiers: monitor.tiers.map((tier, index) => ({
+          name: tier.name,
+          action: describeAction(tier.action),
+          targetUrl: tier.targetUrl,
+          active: index === activeIndex,
+          health: state.tierHealth[tier.name] ?? null,
+        })),
+      },
+      reconciliation: {
+        driftPolicy: monitor.driftPolicy,
+        reconcileIntervalSeconds: monitor.reconcileIntervalSeconds,
+        lastReconcileTime: state.lastReconcileTime,
+        driftEventsTotal: state.driftEventsTotal,
+      },
+      apiCalls: {
+        disabled: state.apiCallsDisabled,
+        disabledReason: state.apiCallsDisabledReason,
+        disabledSince: state.apiCallsDisabledSince,
+        lastTokenVerifyTime: state.lastTokenVerifyTime,
+      },
+      verification: {
+        enabled: monitor.verification !== null,
+        delayMs: monitor.verification?.delayMs ?? null,
+        attempts: monitor.verification?.attempts ?? null,
+        lastVerification: state.lastVerification,
+        verificationFailuresTotal: state.verificationFailuresTotal,
       },
     });
   } catch (error: any) {
@@ -275,15 +712,28 @@ const MetricsResponseSchema = z.object({
   failuresTotal: z.number().describe('Cumulative count of failed health checks (timeouts, errors, non-2xx responses)'),
   redirectRuleChangesTotal: z.number().describe('Cumulative count of redirect rule enable/disable operations'),
   apiErrorsTotal: z.number().describe('Cumulative count of Cloudflare API errors encountered'),
+  slowChecksTotal: z.number().describe('Cumulative count of passing checks that exceeded the slow threshold'),
+  confirmedFailuresTotal: z.number().describe('Cumulative count of failures reproduced by the confirmation re-probe'),
+  transientFailuresTotal: z.number().describe('Cumulative count of failures that passed on the confirmation re-probe and were not counted'),
+  inconclusiveChecksTotal: z.number().describe('Cumulative count of checks not counted because the response came through the failover redirect'),
+  failoversDeferredTotal: z.number().describe('Cumulative count of failovers deferred because the backup site was unhealthy'),
+  driftEventsTotal: z.number().describe('Cumulative count of redirect rule changes made outside the worker'),
+  dryRunDecisionsTotal: z.number().describe('Cumulative count of redirect rule changes recorded but not made in dry-run mode'),
+  verificationFailuresTotal: z.number().describe('Cumulative count of transitions that did not take effect on the public URL'),
+  alarmRearmsTotal: z.number().describe('Cumulative count of check alarms the cron watchdog had to re-arm'),
+  latency: LatencySummarySchema.describe('Rolling response-time percentiles in milliseconds'),
 });
 
 const metricsRoute = createRoute({
   method: 'get',
-  path: '/metrics',
+  path: '/monitors/{monitorId}/metrics',
   tags: ['Monitoring'],
   summary: 'Get cumulative metrics',
   description: 'Returns cumulative monitoring metrics tracked since deployment. These counters continuously increment and are persisted in Durable Objects. Use /reset-all-metrics to reset for testing.',
   security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
   responses: {
     200: {
       content: {
@@ -301,12 +751,18 @@ const metricsRoute = createRoute({
       },
       description: 'Unauthorized',
     },
+    404: MonitorNotFoundResponse,
   },
 });
 
 api.openapi(metricsRoute, async (c) => {
   try {
-    const stateManager = new StateManager(c.env.MONITOR_STATE);
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { stateManager } = ctx;
     const state = await stateManager.getState();
     
     return c.json({
@@ -315,6 +771,16 @@ api.openapi(metricsRoute, async (c) => {
       failuresTotal: state.failuresTotal,
       redirectRuleChangesTotal: state.redirectRuleChangesTotal,
       apiErrorsTotal: state.apiErrorsTotal,
+      slowChecksTotal: state.slowChecksTotal,
+      confirmedFailuresTotal: state.confirmedFailuresTotal,
+      transientFailuresTotal: state.transientFailuresTotal,
+      inconclusiveChecksTotal: state.inconclusiveChecksTotal,
+      failoversDeferredTotal: state.failoversDeferredTotal,
+      driftEventsTotal: state.driftEventsTotal,
+      dryRunDecisionsTotal: state.dryRunDecisionsTotal,
+      verificationFailuresTotal: state.verificationFailuresTotal,
+      alarmRearmsTotal: state.alarmRearmsTotal,
+      latency: summarizeLatency(state.latencySamples, state.lastLatencyMs),
     });
   } catch (error: any) {
     return c.json({ error: error.message }, 500);
@@ -324,11 +790,14 @@ api.openapi(metricsRoute, async (c) => {
 // Redirect rule endpoint
 const redirectRuleRoute = createRoute({
   method: 'get',
-  path: '/redirect-rule',
+  path: '/monitors/{monitorId}/redirect-rule',
   tags: ['Redirect Rules'],
   summary: 'Get redirect rule status',
-  description: 'Fetches the current redirect rule state directly from Cloudflare API. Returns real-time status including whether the rule is currently active (enabled) or inactive (disabled), the rule ID, and when it was last modified.',
+  description: 'Fetches the current state of the failover action directly from Cloudflare API: the redirect rule, DNS record or load balancer pool. Returns real-time status including whether it is currently active (failed over) or inactive, its ID, and when it was last modified. HTTP actions cannot report their state.',
   security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
   responses: {
     200: {
       content: {
@@ -354,31 +823,373 @@ const redirectRuleRoute = createRoute({
       },
       description: 'Failed to fetch rule',
     },
+    404: MonitorNotFoundResponse,
   },
 });
 
 api.openapi(redirectRuleRoute, async (c) => {
   try {
-    const config = validateEnvironment(c.env, new Logger());
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { config, monitor, stateManager } = ctx;
     const logger = new Logger(config.logLevel);
     const apiClient = new CloudflareAPIClient(
       config.cloudflareApiToken,
-      config.zoneId,
+      monitor.zoneId,
       config.accountId,
-      logger
+      logger,
+      config.apiRetry
     );
     
-    const rule = await apiClient.getRedirectRule(config.redirectRuleId);
+    const state = await stateManager.getState();
+    const tier = monitor.tiers[getActiveTierIndex(monitor, state)] ?? monitor.tiers[0];
+    const action = createFailoverAction(monitor, tier, apiClient, logger);
+    if (!action.getStatus) {
+      return c.json({ error: `The ${action.description} of tier "${tier.name}" cannot report its state` }, 500);
+    }
     
-    if (!rule) {
-      return c.json({ error: 'Failed to fetch redirect rule' }, 500);
+    let status: FailoverActionStatus;
+    try {
+      status = await action.getStatus();
+    } catch (error: any) {
+      if (error instanceof CloudflareNotFoundError) {
+        return c.json({ error: `The ${action.description} does not exist: ${error.message}` }, 404);
+      }
+      if (error instanceof CloudflareAuthError) {
+        return c.json({ error: `The Cloudflare API token cannot read the ${action.description}: ${error.message}` }, 500);
+      }
+      if (error instanceof CloudflareRateLimitError) {
+        return c.json({ error: `Rate limited by the Cloudflare API, try again later: ${error.message}` }, 500);
+      }
+      return c.json({ error: `Failed to fetch ${action.description}: ${error.message}` }, 500);
     }
     
     return c.json({
-      id: rule.id,
-      status: rule.status,
-      lastModified: rule.lastModified,
+      id: status.id,
+      actionType: tier.action.type,
+      status: status.active ? 'active' as const : 'inactive' as const,
+      lastModified: status.lastModified,
       lastChecked: new Date().toISOString(),
+      tier: tier.name,
+      targetUrl: status.targetUrl,
+      expression: status.redirect?.expression ?? null,
+      targetExpression: status.redirect?.targetExpression ?? null,
+      statusCode: status.redirect?.statusCode ?? null,
+      preserveQueryString: status.redirect?.preserveQueryString ?? null,
+      backup: state.tierHealth[tier.name] ?? null,
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+// Redirect rule edit endpoint
+const updateRedirectRuleRoute = createRoute({
+  method: 'patch',
+  path: '/monitors/{monitorId}/redirect-rule',
+  tags: ['Redirect Rules'],
+  summary: 'Change the redirect rule target',
+  description: 'Updates the expression, target, status code or query string handling of a tier\'s redirect rule via Cloudflare API, keeping its enabled state. The previous settings are recorded in the redirect rule history as an edited event, so the change can be rolled back with another PATCH.',
+  security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateRedirectRuleRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      content: {
+        'application/json': {
+          schema: UpdateRedirectRuleResponseSchema,
+        },
+      },
+      description: 'Redirect rule updated',
+    },
+    400: {
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+      description: 'Invalid request',
+    },
+    500: {
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+      description: 'Failed to update the rule',
+    },
+    404: MonitorNotFoundResponse,
+  },
+});
+
+api.openapi(updateRedirectRuleRoute, async (c) => {
+  try {
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { config, monitor, stateManager } = ctx;
+    const state = await stateManager.getState();
+    
+    const body = await c.req.json();
+    const tier = body.tier !== undefined
+      ? monitor.tiers.find(candidate => candidate.name === body.tier)
+      : monitor.tiers[getActiveTierIndex(monitor, state)] ?? monitor.tiers[0];
+    if (!tier) {
+      return c.json({ error: `Tier "${body.tier}" not found` }, 400);
+    }
+    if (tier.action.type !== 'redirect-rule') {
+      return c.json({ error: `Tier "${tier.name}" uses a ${tier.action.type} action, not a redirect rule` }, 400);
+    }
+    const { redirectRuleId, rulesetId } = tier.action;
+    if (!redirectRuleId) {
+      return c.json({ error: `Tier "${tier.name}" has no redirect rule yet` }, 404);
+    }
+    if (!rulesetId) {
+      return c.json({ error: 'Editing a redirect rule requires RULESET_ID (or rulesetId)' }, 400);
+    }
+    
+    // Validate the changes
+    const { expression, targetUrl, targetExpression, statusCode, preserveQueryString } = body;
+    const errors: string[] = [];
+    if ([expression, targetUrl, targetExpression, statusCode, preserveQueryString].every(value => value === undefined)) {
+      errors.push('At least one of expression, targetUrl, targetExpression, statusCode or preserveQueryString is required');
+    }
+    if (expression !== undefined && (typeof expression !== 'string' || expression.trim() === '')) {
+      errors.push('expression must be a non-empty string');
+    }
+    if (targetUrl !== undefined && targetExpression !== undefined) {
+      errors.push('Set either targetUrl or targetExpression, not both');
+    }
+    if (targetUrl !== undefined && (typeof targetUrl !== 'string' || !URL.canParse(targetUrl))) {
+      errors.push('targetUrl must be a valid URL');
+    }
+    if (targetExpression !== undefined && (typeof targetExpression !== 'string' || targetExpression.trim() === '')) {
+      errors.push('targetExpression must be a non-empty string');
+    }
+    if (statusCode !== undefined && ![301, 302, 307, 308].includes(statusCode)) {
+      errors.push('statusCode must be 301, 302, 307 or 308');
+    }
+    if (preserveQueryString !== undefined && typeof preserveQueryString !== 'boolean') {
+      errors.push('preserveQueryString must be a boolean');
+    }
+    if (errors.length > 0) {
+      return c.json({ error: errors.join('; ') }, 400);
+    }
+    
+    const logger = new Logger(config.logLevel);
+    const apiClient = new CloudflareAPIClient(
+      config.cloudflareApiToken,
+      monitor.zoneId,
+      config.accountId,
+      logger,
+      config.apiRetry
+    );
+    
+    let result: RedirectTargetChange | null;
+    try {
+      result = await apiClient.updateRedirectTarget(redirectRuleId, rulesetId, {
+        expression,
+        targetUrl,
+        targetExpression,
+        statusCode,
+        preserveQueryString,
+      });
+    } catch (error: any) {
+      if (error instanceof CloudflareNotFoundError) {
+        return c.json({ error: `The redirect rule does not exist: ${error.message}` }, 404);
+      }
+      if (error instanceof CloudflareValidationError) {
+        return c.json({ error: `Cloudflare rejected the change: ${error.message}` }, 400);
+      }
+      if (error instanceof CloudflareAuthError) {
+        await stateManager.disableApiCalls(`Cloudflare API rejected the token while editing redirect rule ${redirectRuleId}`);
+      } else {
+        await stateManager.incrementApiErrors();
+      }
+      return c.json({ error: `Failed to update redirect rule ${redirectRuleId}: ${error.message}` }, 500);
+    }
+    if (!result) {
+      await stateManager.incrementApiErrors();
+      return c.json({ error: `Failed to update redirect rule ${redirectRuleId} after retries` }, 500);
+    }
+    
+    await stateManager.recordRedirectEdit(
+      `Redirect target of rule ${redirectRuleId} updated via API`,
+      tier.name,
+      result.previous,
+      result.updated
+    );
+    // Keep the stored target of a provisioned rule in step, for own-redirect detection
+    if (state.runtimeConfig?.redirectRuleId === redirectRuleId && result.updated.targetUrl) {
+      await stateManager.setRuntimeConfig({ ...state.runtimeConfig, targetUrl: result.updated.targetUrl });
+    }
+    
+    return c.json({
+      success: true,
+      tier: tier.name,
+      ruleId: redirectRuleId,
+      previous: result.previous,
+      updated: result.updated,
+      message: `Updated redirect rule ${redirectRuleId}`,
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+// Redirect rule provisioning endpoint
+const provisionRedirectRuleRoute = createRoute({
+  method: 'post',
+  path: '/monitors/{monitorId}/redirect-rule/provision',
+  tags: ['Redirect Rules'],
+  summary: 'Create the failover redirect rule',
+  description: 'Creates a disabled single redirect rule for the monitored hostname in the zone\'s http_request_dynamic_redirect phase, and stores its rule and ruleset IDs for the monitor. Only for monitors configured without REDIRECT_RULE_ID, an action or failover tiers.',
+  security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: ProvisionRedirectRuleRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      content: {
+        'application/json': {
+          schema: ProvisionRedirectRuleResponseSchema,
+        },
+      },
+      description: 'Redirect rule created',
+    },
+    400: {
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+      description: 'Invalid request',
+    },
+    409: {
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+      description: 'The monitor already has a redirect rule',
+    },
+    500: {
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+      description: 'Failed to create the rule',
+    },
+    404: MonitorNotFoundResponse,
+  },
+});
+
+api.openapi(provisionRedirectRuleRoute, async (c) => {
+  try {
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { config, monitor, stateManager } = ctx;
+    if (!needsRedirectRule(monitor)) {
+      const action = monitor.tiers[0].action;
+      return c.json({
+        error: action.type === 'redirect-rule' && action.redirectRuleId
+          ? `Monitor "${monitorId}" already uses redirect rule ${action.redirectRuleId}`
+          : `Monitor "${monitorId}" uses failover tiers or a ${action.type} action`,
+      }, 409);
+    }
+    // The stored target marks checks as our own redirect, which only an origin probe can see past
+    if (monitor.probe.type === 'http' && !monitor.originProbe) {
+      return c.json({ error: `Monitor "${monitorId}" needs an originProbe, so recovery can be detected while failed over` }, 400);
+    }
+    
+    const body = await c.req.json();
+    const hostname = body.hostname ?? new URL(monitor.monitorUrl).hostname;
+    const targetUrl = body.targetUrl ?? monitor.tiers[0].targetUrl;
+    const statusCode = body.statusCode ?? 302;
+    const preserveQueryString = body.preserveQueryString ?? true;
+    
+    // The hostname ends up in the rule expression, so only plain hostnames are accepted
+    if (!/^[A-Za-z0-9.-]+$/.test(hostname)) {
+      return c.json({ error: 'hostname must be a plain hostname, e.g. shop.example.com' }, 400);
+    }
+    if (!targetUrl || !URL.canParse(targetUrl)) {
+      return c.json({ error: 'targetUrl must be a valid URL (or set failoverTargetUrl on the monitor)' }, 400);
+    }
+    if (![301, 302, 307, 308].includes(statusCode)) {
+      return c.json({ error: 'statusCode must be 301, 302, 307 or 308' }, 400);
+    }
+    
+    const logger = new Logger(config.logLevel);
+    const apiClient = new CloudflareAPIClient(
+      config.cloudflareApiToken,
+      monitor.zoneId,
+      config.accountId,
+      logger,
+      config.apiRetry
+    );
+    
+    let created: { rulesetId: string; rule: RedirectRuleInfo };
+    try {
+      created = await apiClient.createRedirectRule({
+        hostname,
+        targetUrl,
+        statusCode,
+        preserveQueryString,
+        description: `Failover for ${monitor.id} (${monitor.monitorUrl})`,
+      });
+    } catch (error: any) {
+      if (error instanceof CloudflareValidationError) {
+        return c.json({ error: `Cloudflare rejected the redirect rule: ${error.message}` }, 400);
+      }
+      if (error instanceof CloudflareAuthError) {
+        return c.json({ error: `The Cloudflare API token cannot edit redirect rules: ${error.message}` }, 500);
+      }
+      return c.json({ error: `Failed to create redirect rule: ${error.message}` }, 500);
+    }
+    
+    await stateManager.setRuntimeConfig({
+      redirectRuleId: created.rule.id,
+      rulesetId: created.rulesetId,
+      targetUrl,
+      provisionedAt: new Date().toISOString(),
+    });
+    logger.info(`[${monitor.id}] Provisioned redirect rule ${created.rule.id} in ruleset ${created.rulesetId}`);
+    
+    return c.json({
+      success: true,
+      ruleId: created.rule.id,
+      rulesetId: created.rulesetId,
+      rule: {
+        id: created.rule.id,
+        enabled: created.rule.enabled,
+        lastModified: created.rule.lastModified,
+        targetUrl: created.rule.targetUrl,
+      },
+      message: `Created disabled redirect rule ${created.rule.id}; monitoring starts with the next check`,
     });
   } catch (error: any) {
     return c.json({ error: error.message }, 500);
@@ -388,11 +1199,14 @@ api.openapi(redirectRuleRoute, async (c) => {
 // Redirect rule history endpoint
 const redirectRuleHistoryRoute = createRoute({
   method: 'get',
-  path: '/redirect-rule-history',
+  path: '/monitors/{monitorId}/redirect-rule-history',
   tags: ['Redirect Rules'],
   summary: 'Get redirect rule change history',
   description: 'Returns last 50 redirect rule state changes.',
   security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
   responses: {
     200: {
       content: {
@@ -402,12 +1216,18 @@ const redirectRuleHistoryRoute = createRoute({
       },
       description: 'Change history',
     },
+    404: MonitorNotFoundResponse,
   },
 });
 
 api.openapi(redirectRuleHistoryRoute, async (c) => {
   try {
-    const stateManager = new StateManager(c.env.MONITOR_STATE);
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { stateManager } = ctx;
     const state = await stateManager.getState();
     
     return c.json({
@@ -418,14 +1238,227 @@ api.openapi(redirectRuleHistoryRoute, async (c) => {
   }
 });
 
+// Pending action outbox endpoint
+const pendingActionsRoute = createRoute({
+  method: 'get',
+  path: '/monitors/{monitorId}/pending-actions',
+  tags: ['Redirect Rules'],
+  summary: 'Get failed tier changes waiting to be retried',
+  description: 'Returns tier activations and deactivations that failed and are retried with backoff until they succeed or are superseded.',
+  security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
+  responses: {
+    200: {
+      content: {
+        'application/json': {
+          schema: PendingActionsResponseSchema,
+        },
+      },
+      description: 'Pending actions',
+    },
+    404: MonitorNotFoundResponse,
+  },
+});
+
+api.openapi(pendingActionsRoute, async (c) => {
+  try {
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { stateManager } = ctx;
+    const state = await stateManager.getState();
+    
+    return c.json({
+      pendingActions: state.pendingActions,
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+// Fallback page endpoints
+const getFallbackPageRoute = createRoute({
+  method: 'get',
+  path: '/monitors/{monitorId}/fallback-page',
+  tags: ['Fallback Page'],
+  summary: 'Get the fallback page',
+  description: 'Returns the page served with a 503 while a fallback-page tier is active, or the built-in page when none was uploaded.',
+  security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
+  responses: {
+    200: {
+      content: {
+        'application/json': {
+          schema: FallbackPageResponseSchema,
+        },
+      },
+      description: 'Fallback page',
+    },
+    404: MonitorNotFoundResponse,
+  },
+});
+
+api.openapi(getFallbackPageRoute, async (c) => {
+  try {
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { monitor, stateManager } = ctx;
+    const [state, page] = await Promise.all([stateManager.getState(), stateManager.getFallbackPage()]);
+    const activeTier = monitor.tiers[getActiveTierIndex(monitor, state)];
+    
+    return c.json({
+      ...(page ?? DEFAULT_FALLBACK_PAGE),
+      serving: !monitor.dryRun && activeTier?.action.type === 'fallback-page',
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+const setFallbackPageRoute = createRoute({
+  method: 'put',
+  path: '/monitors/{monitorId}/fallback-page',
+  tags: ['Fallback Page'],
+  summary: 'Upload the fallback page',
+  description: 'Replaces the page served while a fallback-page tier is active. Takes effect within a few seconds, including during an ongoing failover.',
+  security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: FallbackPageRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      content: {
+        'application/json': {
+          schema: FallbackPageResponseSchema,
+        },
+      },
+      description: 'Fallback page stored',
+    },
+    400: {
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+      description: 'Invalid request',
+    },
+    404: MonitorNotFoundResponse,
+  },
+});
+
+api.openapi(setFallbackPageRoute, async (c) => {
+  try {
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { monitor, stateManager } = ctx;
+    
+    const body = await c.req.json();
+    const { html, retryAfterSeconds } = body;
+    
+    const errors: string[] = [];
+    if (typeof html !== 'string' || html.trim() === '') {
+      errors.push('html must be a non-empty string');
+    } else if (new TextEncoder().encode(html).length > MAX_FALLBACK_PAGE_BYTES) {
+      errors.push(`html must be at most ${MAX_FALLBACK_PAGE_BYTES / 1024} KiB`);
+    }
+    if (retryAfterSeconds !== undefined && (!Number.isInteger(retryAfterSeconds) || retryAfterSeconds < 0 || retryAfterSeconds > 86400)) {
+      errors.push('retryAfterSeconds must be an integer between 0 and 86400');
+    }
+    if (errors.length > 0) {
+      return c.json({ error: errors.join('; ') }, 400);
+    }
+    
+    const current = await stateManager.getFallbackPage();
+    const page = await stateManager.setFallbackPage(
+      html,
+      retryAfterSeconds ?? (current ?? DEFAULT_FALLBACK_PAGE).retryAfterSeconds
+    );
+    forgetSiteState(monitor.id);
+    const state = await stateManager.getState();
+    const activeTier = monitor.tiers[getActiveTierIndex(monitor, state)];
+    
+    return c.json({
+      ...page,
+      serving: !monitor.dryRun && activeTier?.action.type === 'fallback-page',
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+const deleteFallbackPageRoute = createRoute({
+  method: 'delete',
+  path: '/monitors/{monitorId}/fallback-page',
+  tags: ['Fallback Page'],
+  summary: 'Restore the built-in fallback page',
+  description: 'Deletes the uploaded page, so the built-in page is served while a fallback-page tier is active.',
+  security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
+  responses: {
+    200: {
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema,
+        },
+      },
+      description: 'Fallback page deleted',
+    },
+    404: MonitorNotFoundResponse,
+  },
+});
+
+api.openapi(deleteFallbackPageRoute, async (c) => {
+  try {
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { monitor, stateManager } = ctx;
+    await stateManager.deleteFallbackPage();
+    forgetSiteState(monitor.id);
+    
+    return c.json({
+      success: true,
+      message: 'Fallback page deleted, the built-in page will be served',
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
 // Simulate failover endpoint
 const simulateFailoverRoute = createRoute({
   method: 'post',
-  path: '/simulate-failover',
+  path: '/monitors/{monitorId}/simulate-failover',
   tags: ['Testing'],
   summary: 'Simulate failover (enable redirect rule)',
   description: 'Immediately enables the redirect rule via Cloudflare API to simulate a failover scenario. Use this to test your failover configuration without waiting for actual failures. Resets failure/recovery counters after successful activation.',
   security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
   responses: {
     200: {
       content: {
@@ -435,45 +1468,75 @@ const simulateFailoverRoute = createRoute({
       },
       description: 'Failover simulated',
     },
+    404: MonitorNotFoundResponse,
   },
 });
 
 api.openapi(simulateFailoverRoute, async (c) => {
   try {
     const logger = new Logger((c.env.LOG_LEVEL || 'info') as any);
-    const config = validateEnvironment(c.env, logger);
-    const stateManager = new StateManager(c.env.MONITOR_STATE);
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId, logger);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { config, monitor, stateManager } = ctx;
     
     // Set failure counter to threshold
-    const state = await stateManager.simulateFailover(config.failureCountThreshold);
+    const state = await stateManager.simulateFailover(monitor.failureCountThreshold);
     
     // Actually enable the redirect rule via API
     const apiClient = new CloudflareAPIClient(
       config.cloudflareApiToken,
-      config.zoneId,
+      monitor.zoneId,
       config.accountId,
-      logger
+      logger,
+      config.apiRetry
     );
     
-    const success = await apiClient.updateRedirectRule(config.redirectRuleId, true);
+    const tier = monitor.tiers[0];
+    const action = createFailoverAction(monitor, tier, apiClient, logger);
+    let success: boolean;
+    try {
+      success = await action.setActive(true);
+    } catch (error: any) {
+      if (error instanceof CloudflareAuthError) {
+        await stateManager.disableApiCalls(`Cloudflare API rejected the token during a simulated failover of the ${action.description}`);
+      } else {
+        await stateManager.incrementApiErrors();
+      }
+      return c.json({
+        success: false,
+        message: `Failed to activate ${action.description}: ${error.message}`,
+      }, 500);
+    }
     
     if (success) {
-      await stateManager.updateRedirectRuleState(
+      const updated = await stateManager.updateRedirectRuleState(
         true,
-        'Simulated failover - manually triggered via API'
+        'Simulated failover - manually triggered via API',
+        tier.name,
+        monitor.dryRun
       );
       await stateManager.resetCounters();
+      // Verification waits for the change to propagate, so it finishes after the response
+      c.executionCtx.waitUntil(
+        verifyTransition(monitor, stateManager, logger, updated.redirectRuleHistory[0], tier, true)
+          .catch(error => logger.error(`[${monitor.id}] Verification failed`, { error: error.message }))
+      );
       
       return c.json({
         success: true,
         newFailureCount: 0,
-        message: 'Redirect rule enabled successfully',
+        message: monitor.dryRun
+          ? `Dry run: recorded activation of ${action.description} without making it`
+          : `Activated ${action.description}`,
       });
     } else {
       await stateManager.incrementApiErrors();
       return c.json({
         success: false,
-        message: 'Failed to enable redirect rule via Cloudflare API',
+        message: `Failed to activate ${action.description}`,
       }, 500);
     }
   } catch (error: any) {
@@ -484,11 +1547,14 @@ api.openapi(simulateFailoverRoute, async (c) => {
 // Simulate recovery endpoint
 const simulateRecoveryRoute = createRoute({
   method: 'post',
-  path: '/simulate-recovery',
+  path: '/monitors/{monitorId}/simulate-recovery',
   tags: ['Testing'],
   summary: 'Simulate recovery (disable redirect rule)',
   description: 'Immediately disables the redirect rule via Cloudflare API to simulate a recovery scenario. Use this to test recovery behavior without waiting for successful health checks. Resets failure/recovery counters after successful deactivation.',
   security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
   responses: {
     200: {
       content: {
@@ -498,45 +1564,75 @@ const simulateRecoveryRoute = createRoute({
       },
       description: 'Recovery simulated',
     },
+    404: MonitorNotFoundResponse,
   },
 });
 
 api.openapi(simulateRecoveryRoute, async (c) => {
   try {
     const logger = new Logger((c.env.LOG_LEVEL || 'info') as any);
-    const config = validateEnvironment(c.env, logger);
-    const stateManager = new StateManager(c.env.MONITOR_STATE);
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId, logger);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { config, monitor, stateManager } = ctx;
     
     // Set recovery counter to threshold
-    const state = await stateManager.simulateRecovery(config.recoveryCountThreshold);
+    const state = await stateManager.simulateRecovery(monitor.recoveryCountThreshold);
+    const tier = monitor.tiers[getActiveTierIndex(monitor, state)] ?? monitor.tiers[0];
     
     // Actually disable the redirect rule via API
     const apiClient = new CloudflareAPIClient(
       config.cloudflareApiToken,
-      config.zoneId,
+      monitor.zoneId,
       config.accountId,
-      logger
+      logger,
+      config.apiRetry
     );
     
-    const success = await apiClient.updateRedirectRule(config.redirectRuleId, false);
+    const action = createFailoverAction(monitor, tier, apiClient, logger);
+    let success: boolean;
+    try {
+      success = await action.setActive(false);
+    } catch (error: any) {
+      if (error instanceof CloudflareAuthError) {
+        await stateManager.disableApiCalls(`Cloudflare API rejected the token during a simulated recovery of the ${action.description}`);
+      } else {
+        await stateManager.incrementApiErrors();
+      }
+      return c.json({
+        success: false,
+        message: `Failed to deactivate ${action.description}: ${error.message}`,
+      }, 500);
+    }
     
     if (success) {
-      await stateManager.updateRedirectRuleState(
+      const updated = await stateManager.updateRedirectRuleState(
         false,
-        'Simulated recovery - manually triggered via API'
+        'Simulated recovery - manually triggered via API',
+        tier.name,
+        monitor.dryRun
       );
       await stateManager.resetCounters();
+      // Verification waits for the change to propagate, so it finishes after the response
+      c.executionCtx.waitUntil(
+        verifyTransition(monitor, stateManager, logger, updated.redirectRuleHistory[0], tier, false)
+          .catch(error => logger.error(`[${monitor.id}] Verification failed`, { error: error.message }))
+      );
       
       return c.json({
         success: true,
         newRecoveryCount: 0,
-        message: 'Redirect rule disabled successfully',
+        message: monitor.dryRun
+          ? `Dry run: recorded deactivation of ${action.description} without making it`
+          : `Deactivated ${action.description}`,
       });
     } else {
       await stateManager.incrementApiErrors();
       return c.json({
         success: false,
-        message: 'Failed to disable redirect rule via Cloudflare API',
+        message: `Failed to deactivate ${action.description}`,
       }, 500);
     }
   } catch (error: any) {
@@ -544,14 +1640,70 @@ api.openapi(simulateRecoveryRoute, async (c) => {
   }
 });
 
+// Re-enable API calls endpoint
+const enableApiCallsRoute = createRoute({
+  method: 'post',
+  path: '/monitors/{monitorId}/enable-api-calls',
+  tags: ['Management'],
+  summary: 'Re-enable Cloudflare API calls',
+  description: 'Clears the API-disabled state set after a Cloudflare API authentication failure, without waiting for the automatic token re-verification. Use this after rotating CLOUDFLARE_API_TOKEN.',
+  security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
+  responses: {
+    200: {
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema,
+        },
+      },
+      description: 'API calls re-enabled',
+    },
+    404: MonitorNotFoundResponse,
+  },
+});
+
+api.openapi(enableApiCallsRoute, async (c) => {
+  try {
+    const logger = new Logger((c.env.LOG_LEVEL || 'info') as any);
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId, logger);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { monitor, stateManager } = ctx;
+    const state = await stateManager.getState();
+    if (!state.apiCallsDisabled) {
+      return c.json({
+        success: true,
+        message: 'API calls are not disabled',
+      });
+    }
+    
+    await stateManager.enableApiCalls();
+    logger.info(`[${monitor.id}] API calls re-enabled via API`, { disabledReason: state.apiCallsDisabledReason });
+    
+    return c.json({
+      success: true,
+      message: 'API calls re-enabled',
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
 // Reset counters endpoint
 const resetCountersRoute = createRoute({
   method: 'post',
-  path: '/reset-counters',
+  path: '/monitors/{monitorId}/reset-counters',
   tags: ['Management'],
   summary: 'Reset failure and recovery counters',
-  description: 'Resets ONLY the consecutive failure and recovery counters to zero. All cumulative metrics (healthChecksTotal, successesTotal, etc.) are preserved and continue accumulating. Use this to clear consecutive counters without losing historical data.',
+  description: 'Resets ONLY the consecutive failure and recovery counters to zero and clears the sliding window of recent results. All cumulative metrics (healthChecksTotal, successesTotal, etc.) are preserved and continue accumulating. Use this to clear consecutive counters without losing historical data.',
   security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
   responses: {
     200: {
       content: {
@@ -561,12 +1713,18 @@ const resetCountersRoute = createRoute({
       },
       description: 'Counters reset',
     },
+    404: MonitorNotFoundResponse,
   },
 });
 
 api.openapi(resetCountersRoute, async (c) => {
   try {
-    const stateManager = new StateManager(c.env.MONITOR_STATE);
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { stateManager } = ctx;
     await stateManager.resetCounters();
     
     return c.json({
@@ -581,11 +1739,14 @@ api.openapi(resetCountersRoute, async (c) => {
 // Reset all metrics endpoint (for debugging)
 const resetAllMetricsRoute = createRoute({
   method: 'post',
-  path: '/reset-all-metrics',
+  path: '/monitors/{monitorId}/reset-all-metrics',
   tags: ['Management'],
   summary: 'Reset all metrics (testing only)',
   description: 'Resets EVERYTHING: consecutive counters AND all cumulative metrics (healthChecksTotal, successesTotal, failuresTotal, redirectRuleChangesTotal, apiErrorsTotal) back to zero. ⚠️ WARNING: This erases all historical metric data. Use only for testing or debugging purposes.',
   security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
   responses: {
     200: {
       content: {
@@ -595,12 +1756,18 @@ const resetAllMetricsRoute = createRoute({
       },
       description: 'All metrics reset',
     },
+    404: MonitorNotFoundResponse,
   },
 });
 
 api.openapi(resetAllMetricsRoute, async (c) => {
   try {
-    const stateManager = new StateManager(c.env.MONITOR_STATE);
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { stateManager } = ctx;
     await stateManager.resetAllMetrics();
     
     return c.json({
@@ -615,12 +1782,13 @@ api.openapi(resetAllMetricsRoute, async (c) => {
 // Maintenance mode endpoint
 const maintenanceModeRoute = createRoute({
   method: 'post',
-  path: '/maintenance-mode',
+  path: '/monitors/{monitorId}/maintenance-mode',
   tags: ['Maintenance'],
   summary: 'Set maintenance mode',
   description: 'Enable or disable maintenance mode.',
   security: [{ Bearer: [] }],
   request: {
+    params: MonitorParamsSchema,
     body: {
       content: {
         'application/json': {
@@ -646,11 +1814,19 @@ const maintenanceModeRoute = createRoute({
       },
       description: 'Invalid request',
     },
+    404: MonitorNotFoundResponse,
   },
 });
 
 api.openapi(maintenanceModeRoute, async (c) => {
   try {
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { stateManager } = ctx;
+    
     const body = await c.req.json();
     const { enabled, reason } = body;
     
@@ -658,7 +1834,6 @@ api.openapi(maintenanceModeRoute, async (c) => {
       return c.json({ error: 'enabled must be a boolean' }, 400);
     }
     
-    const stateManager = new StateManager(c.env.MONITOR_STATE);
     const state = await stateManager.setMaintenanceMode(enabled, reason);
     
     return c.json({
@@ -674,12 +1849,13 @@ api.openapi(maintenanceModeRoute, async (c) => {
 // Add maintenance window endpoint
 const addMaintenanceWindowRoute = createRoute({
   method: 'post',
-  path: '/maintenance-window',
+  path: '/monitors/{monitorId}/maintenance-window',
   tags: ['Maintenance'],
   summary: 'Schedule maintenance window',
   description: 'Schedule a maintenance window during which redirect rule changes are blocked.',
   security: [{ Bearer: [] }],
   request: {
+    params: MonitorParamsSchema,
     body: {
       content: {
         'application/json': {
@@ -705,11 +1881,19 @@ const addMaintenanceWindowRoute = createRoute({
       },
       description: 'Invalid request',
     },
+    404: MonitorNotFoundResponse,
   },
 });
 
 api.openapi(addMaintenanceWindowRoute, async (c) => {
   try {
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { stateManager } = ctx;
+    
     const body = await c.req.json();
     const { startTime, endTime, reason } = body;
     
@@ -724,7 +1908,6 @@ api.openapi(addMaintenanceWindowRoute, async (c) => {
       reason,
     };
     
-    const stateManager = new StateManager(c.env.MONITOR_STATE);
     await stateManager.addMaintenanceWindow(window);
     
     return c.json({
@@ -742,11 +1925,14 @@ api.openapi(addMaintenanceWindowRoute, async (c) => {
 // Get maintenance windows endpoint
 const getMaintenanceWindowsRoute = createRoute({
   method: 'get',
-  path: '/maintenance-windows',
+  path: '/monitors/{monitorId}/maintenance-windows',
   tags: ['Maintenance'],
   summary: 'Get maintenance windows',
   description: 'Returns all scheduled maintenance windows.',
   security: [{ Bearer: [] }],
+  request: {
+    params: MonitorParamsSchema,
+  },
   responses: {
     200: {
       content: {
@@ -756,12 +1942,18 @@ const getMaintenanceWindowsRoute = createRoute({
       },
       description: 'Maintenance windows',
     },
+    404: MonitorNotFoundResponse,
   },
 });
 
 api.openapi(getMaintenanceWindowsRoute, async (c) => {
   try {
-    const stateManager = new StateManager(c.env.MONITOR_STATE);
+    const { monitorId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { stateManager } = ctx;
     const state = await stateManager.getState();
     
     const now = new Date();
@@ -779,13 +1971,13 @@ api.openapi(getMaintenanceWindowsRoute, async (c) => {
 // Delete maintenance window endpoint
 const deleteMaintenanceWindowRoute = createRoute({
   method: 'delete',
-  path: '/maintenance-window/{windowId}',
+  path: '/monitors/{monitorId}/maintenance-window/{windowId}',
   tags: ['Maintenance'],
   summary: 'Cancel maintenance window',
   description: 'Cancels a scheduled maintenance window.',
   security: [{ Bearer: [] }],
   request: {
-    params: z.object({
+    params: MonitorParamsSchema.extend({
       windowId: z.string(),
     }),
   },
@@ -798,14 +1990,18 @@ const deleteMaintenanceWindowRoute = createRoute({
       },
       description: 'Maintenance window cancelled',
     },
+    404: MonitorNotFoundResponse,
   },
 });
 
 api.openapi(deleteMaintenanceWindowRoute, async (c) => {
   try {
-    const { windowId } = c.req.param();
-    
-    const stateManager = new StateManager(c.env.MONITOR_STATE);
+    const { monitorId, windowId } = c.req.param();
+    const ctx = await resolveMonitor(c.env, monitorId);
+    if (!ctx) {
+      return c.json({ error: `Monitor "${monitorId}" not found` }, 404);
+    }
+    const { stateManager } = ctx;
     await stateManager.deleteMaintenanceWindow(windowId);
     
     return c.json({
@@ -817,6 +2013,31 @@ api.openapi(deleteMaintenanceWindowRoute, async (c) => {
   }
 });
 
+// Unscoped routes from before the monitor registry, kept for existing clients. They act
+// on the default monitor, the one configured through MONITOR_URL.
+const LEGACY_ROUTES = [
+  '/status',
+  '/metrics',
+  '/redirect-rule',
+  '/redirect-rule-history',
+  '/simulate-failover',
+  '/simulate-recovery',
+  '/reset-counters',
+  '/reset-all-metrics',
+  '/maintenance-mode',
+  '/maintenance-window',
+  '/maintenance-windows',
+  '/maintenance-window/:windowId',
+];
+
+for (const path of LEGACY_ROUTES) {
+  api.all(path, async (c) => {
+    const url = new URL(c.req.url);
+    url.pathname = `/monitors/${DEFAULT_MONITOR_ID}${url.pathname}`;
+    return await api.fetch(new Request(url, c.req.raw), c.env, c.executionCtx);
+  });
+}
+
 // Configure OpenAPI documentation
 api.doc('/openapi.json', (c) => {
   const url = new URL(c.req.url);
@@ -841,6 +2062,7 @@ api.doc('/openapi.json', (c) => {
       { name: 'Testing', description: 'Testing and simulation endpoints' },
       { name: 'Management', description: 'Counter and state management' },
       { name: 'Maintenance', description: 'Maintenance mode management' },
+      { name: 'Fallback Page', description: 'Page the worker serves while failed over to a fallback-page tier' },
     ],
   };
 });
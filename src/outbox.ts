@@ -0,0 +1,111 @@
+import type { FailoverTierConfig, MonitorConfig, MonitorStateData, PendingAction } from './types';
+import { Logger } from './logger';
+import { CloudflareAPIClient } from './cloudflare-api';
+import { StateManager } from './state-manager';
+import { getActiveTierIndex, updateTierAction } from './failover-tiers';
+import { checkFailureTrigger, checkRecoveryTrigger } from './trigger';
+import { verifyTransition } from './verification';
+
+const OUTBOX_BASE_DELAY_MS = 60 * 1000;
+const OUTBOX_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// Deactivations back off 1m, 2m, 4m, ... capped at 30 minutes. A failed activation leaves
+// visitors on the failing primary, so it is due again on the next check.
+function nextAttemptAt(active: boolean, attempts: number, now: Date): string {
+  const delay = active ? 0 : Math.min(OUTBOX_MAX_DELAY_MS, OUTBOX_BASE_DELAY_MS * 2 ** (attempts - 1));
+  return new Date(now.getTime() + delay).toISOString();
+}
+
+// Remember a tier change that failed after the API client's own retries, replacing
+// any older intent for the same tier
+export async function enqueuePendingAction(
+  monitor: MonitorConfig,
+  stateManager: StateManager,
+  logger: Logger,
+  tier: FailoverTierConfig,
+  active: boolean,
+  reason: string,
+  now: Date = new Date()
+): Promise<MonitorStateData> {
+  const pending: PendingAction = {
+    tier: tier.name,
+    active,
+    reason,
+    createdAt: now.toISOString(),
+    attempts: 1,
+    lastAttemptAt: now.toISOString(),
+    nextAttemptAt: nextAttemptAt(active, 1, now),
+  };
+  logger.warn(
+    `[${monitor.id}] Could not ${active ? 'activate' : 'deactivate'} tier "${tier.name}", retrying after ${pending.nextAttemptAt}`
+  );
+  return await stateManager.putPendingAction(pending);
+}
+
+// Whether the outbox is already retrying this change, so the runner should not repeat it
+export function hasPendingAction(state: MonitorStateData, active: boolean, tier?: string): boolean {
+  return state.pendingActions.some(pending => pending.active === active && (tier === undefined || pending.tier === tier));
+}
+
+// An intent is superseded once the state or the check results no longer call for it
+function isStillWanted(monitor: MonitorConfig, state: MonitorStateData, pending: PendingAction): boolean {
+  if (pending.active) {
+    return !state.redirectRuleEnabled && checkFailureTrigger(monitor, state).reached;
+  }
+  const activeTier = state.redirectRuleEnabled ? monitor.tiers[getActiveTierIndex(monitor, state)] : null;
+  if (activeTier?.name === pending.tier) {
+    return checkRecoveryTrigger(monitor, state).reached;
+  }
+  // Another tier is active, so this one was left behind and must still be turned off
+  return true;
+}
+
+// Retry due pending actions, dropping the ones that were superseded. A successful
+// retry records the transition the original attempt would have recorded.
+export async function retryPendingActions(
+  monitor: MonitorConfig,
+  state: MonitorStateData,
+  apiClient: CloudflareAPIClient,
+  stateManager: StateManager,
+  logger: Logger,
+  now: Date = new Date()
+): Promise<MonitorStateData> {
+  for (const pending of state.pendingActions) {
+    const tier = monitor.tiers.find(candidate => candidate.name === pending.tier);
+    if (!tier || !isStillWanted(monitor, state, pending)) {
+      logger.info(`[${monitor.id}] Dropping pending ${pending.active ? 'activation' : 'deactivation'} of tier "${pending.tier}", no longer needed`);
+      state = await stateManager.removePendingAction(pending.tier);
+      continue;
+    }
+    if (new Date(pending.nextAttemptAt) > now) {
+      continue;
+    }
+
+    logger.info(
+      `[${monitor.id}] Retrying ${pending.active ? 'activation' : 'deactivation'} of tier "${tier.name}" (attempt ${pending.attempts + 1})`
+    );
+    if (!(await updateTierAction(monitor, apiClient, stateManager, logger, tier, pending.active))) {
+      const attempts = pending.attempts + 1;
+      state = await stateManager.putPendingAction({
+        ...pending,
+        attempts,
+        lastAttemptAt: now.toISOString(),
+        nextAttemptAt: nextAttemptAt(pending.active, attempts, now),
+      });
+      if (state.apiCallsDisabled) {
+        break;
+      }
+      continue;
+    }
+
+    state = await stateManager.removePendingAction(tier.name);
+    const activeTier = state.redirectRuleEnabled ? monitor.tiers[getActiveTierIndex(monitor, state)] : null;
+    if (pending.active ? !state.redirectRuleEnabled : activeTier === tier) {
+      const updated = await stateManager.updateRedirectRuleState(pending.active, pending.reason, tier.name, monitor.dryRun);
+      state = await stateManager.resetCounters();
+      await verifyTransition(monitor, stateManager, logger, updated.redirectRuleHistory[0], tier, pending.active);
+    }
+    logger.info(`[${monitor.id}] Pending ${pending.active ? 'activation' : 'deactivation'} of tier "${tier.name}" succeeded`);
+  }
+  return state;
+}
@@ -0,0 +1,98 @@
+import { connect } from 'cloudflare:sockets';
+import type { DnsRecordType, MonitorConfig } from './types';
+
+// Stop reading a banner after this many characters even if it never matches
+const MAX_BANNER_LENGTH = 4096;
+
+const DNS_TYPE_CODES: Record<DnsRecordType, number> = { A: 1, CNAME: 5, AAAA: 28 };
+
+const DNS_RCODES: Record<number, string> = { 1: 'FORMERR', 2: 'SERVFAIL', 3: 'NXDOMAIN', 5: 'REFUSED' };
+
+interface DohResponse {
+  Status: number;
+  Answer?: { name: string; type: number; data: string }[];
+}
+
+// TCP connect (or TLS handshake) with an optional banner match; returns failure reasons
+export async function probeSocket(monitor: MonitorConfig, signal: AbortSignal): Promise<string[]> {
+  const hostname = monitor.probe.host ?? new URL(monitor.monitorUrl).hostname;
+  const port = monitor.probe.port as number;
+  const aborted = untilAborted(signal);
+
+  const socket = connect(
+    { hostname, port },
+    { secureTransport: monitor.probe.type === 'tls' ? 'on' : 'off', allowHalfOpen: false }
+  );
+
+  try {
+    // With secureTransport "on", opened only resolves once the TLS handshake succeeds
+    await Promise.race([socket.opened, aborted]);
+
+    if (monitor.probe.banner === null) {
+      return [];
+    }
+
+    const pattern = new RegExp(monitor.probe.banner);
+    const reader = socket.readable.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    while (!pattern.test(received) && received.length < MAX_BANNER_LENGTH) {
+      const { value, done } = await Promise.race([reader.read(), aborted]);
+      if (done) {
+        break;
+      }
+      received += decoder.decode(value, { stream: true });
+    }
+
+    return pattern.test(received)
+      ? []
+      : [`Banner ${JSON.stringify(received.slice(0, 100))} from ${hostname}:${port} does not match /${monitor.probe.banner}/`];
+  } finally {
+    socket.close().catch(() => {});
+  }
+}
+
+// DNS-over-HTTPS lookup asserting the expected answers; returns failure reasons
+export async function probeDns(monitor: MonitorConfig, signal: AbortSignal): Promise<string[]> {
+  const { recordType, expectedAnswers, resolverUrl } = monitor.probe;
+  const name = monitor.probe.dnsName ?? new URL(monitor.monitorUrl).hostname;
+
+  const url = new URL(resolverUrl);
+  url.searchParams.set('name', name);
+  url.searchParams.set('type', recordType);
+
+  const response = await fetch(url.href, {
+    headers: { Accept: 'application/dns-json' },
+    signal,
+  });
+  if (!response.ok) {
+    return [`DNS resolver returned status ${response.status}`];
+  }
+
+  const result = await response.json() as DohResponse;
+  if (result.Status !== 0) {
+    return [`DNS lookup for ${name} returned ${DNS_RCODES[result.Status] ?? `rcode ${result.Status}`}`];
+  }
+
+  const answers = (result.Answer ?? [])
+    .filter(answer => answer.type === DNS_TYPE_CODES[recordType])
+    .map(answer => normalizeDnsData(answer.data));
+  if (answers.length === 0) {
+    return [`No ${recordType} records for ${name}`];
+  }
+
+  return expectedAnswers
+    .filter(expected => !answers.includes(normalizeDnsData(expected)))
+    .map(expected => `${recordType} records for ${name} [${answers.join(', ')}] do not include ${expected}`);
+}
+
+// Hostnames compare case-insensitively and with or without the trailing dot
+function normalizeDnsData(data: string): string {
+  return data.toLowerCase().replace(/\.$/, '');
+}
+
+export function untilAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+}
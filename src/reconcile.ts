@@ -0,0 +1,97 @@
+import type { FailoverTierConfig, MonitorConfig, MonitorStateData } from './types';
+import { Logger } from './logger';
+import { CloudflareAPIClient } from './cloudflare-api';
+import { StateManager } from './state-manager';
+import { getActiveTierIndex, updateTierAction } from './failover-tiers';
+import { createFailoverAction } from './failover-actions';
+
+interface TierDrift {
+  tier: FailoverTierConfig;
+  expected: boolean;
+  actual: boolean;
+}
+
+// Compare each tier's failover action with the stored state and, on drift, either
+// adopt the external change or restore the actions depending on the drift policy.
+// Tiers with a pending action are left to the outbox.
+export async function reconcileFailoverActions(
+  monitor: MonitorConfig,
+  state: MonitorStateData,
+  apiClient: CloudflareAPIClient,
+  stateManager: StateManager,
+  logger: Logger,
+  maintenanceModeActive: boolean
+): Promise<MonitorStateData> {
+  const activeIndex = getActiveTierIndex(monitor, state);
+  const actual: boolean[] = [];
+  for (const [index, tier] of monitor.tiers.entries()) {
+    // A change the outbox is still retrying is expected to differ, not an external edit
+    if (state.pendingActions.some(pending => pending.tier === tier.name)) {
+      actual.push(index === activeIndex);
+      continue;
+    }
+    const action = createFailoverAction(monitor, tier, apiClient, logger);
+    if (!action.getStatus) {
+      // Actions that cannot report their state are assumed to match it
+      actual.push(index === activeIndex);
+      continue;
+    }
+    try {
+      actual.push((await action.getStatus()).active);
+    } catch (error: any) {
+      // Without every action's state the drift cannot be judged, so try again next interval
+      logger.warn(`[${monitor.id}] Could not read the ${action.description} of tier "${tier.name}", skipping reconciliation`, {
+        error: error.message,
+      });
+      return await stateManager.recordReconcile();
+    }
+  }
+
+  const drifts: TierDrift[] = monitor.tiers
+    .map((tier, index) => ({ tier, expected: index === activeIndex, actual: actual[index] }))
+    .filter(drift => drift.expected !== drift.actual);
+  if (drifts.length === 0) {
+    logger.debug(`[${monitor.id}] Failover actions match the stored state`);
+    return await stateManager.recordReconcile();
+  }
+
+  // Manual changes are expected during maintenance, so they are always adopted
+  const policy = maintenanceModeActive ? 'adopt' : monitor.driftPolicy;
+  const description = drifts
+    .map(drift => `tier "${drift.tier.name}" is ${drift.actual ? 'active' : 'inactive'}, expected ${drift.expected ? 'active' : 'inactive'}`)
+    .join('; ');
+  logger.error(`[${monitor.id}] Failover drift detected: ${description}`, { policy });
+
+  if (policy === 'restore') {
+    // Activate before deactivating, so visitors are always sent somewhere
+    const ordered = [...drifts].sort((a, b) => Number(b.expected) - Number(a.expected));
+    let restored = true;
+    for (const drift of ordered) {
+      if (!(await updateTierAction(monitor, apiClient, stateManager, logger, drift.tier, drift.expected))) {
+        restored = false;
+      }
+    }
+    if (!restored) {
+      logger.error(`[${monitor.id}] Could not restore every failover action, retrying next interval`);
+    }
+    return await stateManager.recordDrift(
+      `${restored ? 'Restored' : 'Failed to restore'} failover actions: ${description}`,
+      state.redirectRuleEnabled,
+      monitor.tiers[activeIndex]?.name ?? null
+    );
+  }
+
+  // Adopt the highest-priority active tier and deactivate any other active ones
+  const adoptedIndex = actual.indexOf(true);
+  for (let index = adoptedIndex + 1; adoptedIndex !== -1 && index < monitor.tiers.length; index++) {
+    if (actual[index]) {
+      logger.warn(`[${monitor.id}] Deactivating tier "${monitor.tiers[index].name}", only one tier can be active`);
+      await updateTierAction(monitor, apiClient, stateManager, logger, monitor.tiers[index], false);
+    }
+  }
+
+  const tier = adoptedIndex === -1 ? null : monitor.tiers[adoptedIndex];
+  await stateManager.recordDrift(`Adopted external change: ${description}`, tier !== null, tier?.name ?? null);
+  // Counters from before the change no longer describe the current failover state
+  return await stateManager.resetCounters();
+}
@@ -0,0 +1,24 @@
+import type { MonitorConfig, RuntimeConfig } from './types';
+
+// Whether the monitor has no redirect rule yet, so one may be provisioned through the API
+export function needsRedirectRule(monitor: MonitorConfig): boolean {
+  const action = monitor.tiers[0].action;
+  return monitor.tiers.length === 1 && action.type === 'redirect-rule' && action.redirectRuleId === null;
+}
+
+// Fill in a provisioned redirect rule. Settings from the environment always win,
+// so a rule provisioned earlier is ignored once REDIRECT_RULE_ID is set.
+export function applyRuntimeConfig(monitor: MonitorConfig, runtimeConfig: RuntimeConfig | null): MonitorConfig {
+  if (!runtimeConfig || !needsRedirectRule(monitor)) {
+    return monitor;
+  }
+  const [tier] = monitor.tiers;
+  return {
+    ...monitor,
+    tiers: [{
+      ...tier,
+      action: { type: 'redirect-rule', redirectRuleId: runtimeConfig.redirectRuleId, rulesetId: runtimeConfig.rulesetId },
+      targetUrl: tier.targetUrl ?? runtimeConfig.targetUrl,
+    }],
+  };
+}
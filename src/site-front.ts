@@ -0,0 +1,159 @@
+import type { Env, FallbackPage, MonitorConfig, MonitorStateData, ProxyActionConfig, ValidatedConfig } from './types';
+import { Logger } from './logger';
+import { validateEnvironment } from './validation';
+import { StateManager, monitorObjectId } from './state-manager';
+import { getActiveTierIndex } from './failover-tiers';
+import { onOrigin } from './failover-actions';
+import { DEFAULT_FALLBACK_PAGE, fallbackPageResponse } from './fallback-page';
+
+// How long an isolate reuses a monitor's state before asking the Durable Object again
+const SITE_STATE_TTL_MS = 5000;
+
+// Only requests without a body are retried, so uploads are never buffered for a retry
+const RETRYABLE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Tells clients and operators which origin answered a proxied request
+export const ORIGIN_HEADER = 'X-Failover-Origin';
+
+interface SiteState {
+  state: MonitorStateData;
+  page: FallbackPage | null;
+  fetchedAt: number;
+}
+
+// Environment settings cannot change within an isolate, so validate them once
+let siteConfig: ValidatedConfig | null = null;
+const siteStates = new Map<string, SiteState>();
+
+// The monitor whose site this request is for, when one of its tiers is served by the worker itself
+export function findSiteMonitor(env: Env, request: Request): MonitorConfig | null {
+  if (!siteConfig) {
+    try {
+      siteConfig = validateEnvironment(env, new Logger('error'));
+    } catch {
+      // Let the API report the configuration errors
+      return null;
+    }
+  }
+  const hostname = new URL(request.url).hostname;
+  return siteConfig.monitors.find(monitor =>
+    new URL(monitor.monitorUrl).hostname === hostname
+    && monitor.tiers.some(tier => tier.action.type === 'fallback-page' || tier.action.type === 'proxy')
+  ) ?? null;
+}
+
+// Answer a visitor's request according to the monitor's active tier: the fallback page,
+// the backup origin, or otherwise the primary origin
+export async function handleSiteRequest(env: Env, monitor: MonitorConfig, request: Request): Promise<Response> {
+  const logger = new Logger((env.LOG_LEVEL || 'debug') as any);
+  let site: SiteState | null = null;
+  try {
+    site = await getSiteState(env, monitor);
+  } catch (error: any) {
+    // Without the state, sending visitors to the primary origin is the safer guess
+    logger.error(`[${monitor.id}] Could not read failover state, using the primary origin`, { error: error.message });
+  }
+
+  const activeTier = site && !monitor.dryRun ? monitor.tiers[getActiveTierIndex(monitor, site.state)] : undefined;
+  if (activeTier?.action.type === 'fallback-page') {
+    return fallbackPageResponse(site?.page ?? DEFAULT_FALLBACK_PAGE, request);
+  }
+  if (activeTier?.action.type === 'proxy') {
+    try {
+      return withOrigin(await fetch(toBackup(request, activeTier.action.backupOrigin)), 'backup');
+    } catch (error: any) {
+      logger.error(`[${monitor.id}] Backup origin ${activeTier.action.backupOrigin} failed`, { error: error.message });
+      return new Response('Bad Gateway', { status: 502 });
+    }
+  }
+
+  const proxy = getProxyAction(monitor);
+  if (!proxy) {
+    return await fetch(request);
+  }
+  return await proxyToPrimary(monitor, proxy, request, logger);
+}
+
+// Drop the cached state after an edit, so this isolate serves the change right away
+export function forgetSiteState(monitorId: string): void {
+  siteStates.delete(monitorId);
+}
+
+async function getSiteState(env: Env, monitor: MonitorConfig): Promise<SiteState> {
+  const cached = siteStates.get(monitor.id);
+  if (cached && Date.now() - cached.fetchedAt < SITE_STATE_TTL_MS) {
+    return cached;
+  }
+  const stateManager = new StateManager(env.MONITOR_STATE, monitorObjectId(monitor.id));
+  const [state, page] = await Promise.all([stateManager.getState(), stateManager.getFallbackPage()]);
+  const site: SiteState = { state, page, fetchedAt: Date.now() };
+  siteStates.set(monitor.id, site);
+  return site;
+}
+
+// The highest-priority proxy tier decides where single failed requests are retried
+function getProxyAction(monitor: MonitorConfig): ProxyActionConfig | null {
+  for (const tier of monitor.tiers) {
+    if (tier.action.type === 'proxy') {
+      return tier.action;
+    }
+  }
+  return null;
+}
+
+// Send the request to the primary origin and, when enabled, retry a body-less request
+// once on the backup origin if the primary answers with a 5xx or does not answer in time
+async function proxyToPrimary(
+  monitor: MonitorConfig,
+  proxy: ProxyActionConfig,
+  request: Request,
+  logger: Logger
+): Promise<Response> {
+  if (!proxy.fallbackOnError || !RETRYABLE_METHODS.includes(request.method)) {
+    return withOrigin(await fetch(request), 'primary');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), proxy.timeoutMs);
+  let primary: Response | null = null;
+  let reason: string;
+  try {
+    const response = await fetch(request, { signal: controller.signal });
+    if (response.status < 500) {
+      return withOrigin(response, 'primary');
+    }
+    primary = response;
+    reason = `HTTP ${response.status}`;
+  } catch (error: any) {
+    reason = error.name === 'AbortError' ? `Timed out after ${proxy.timeoutMs}ms` : error.message;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  logger.warn(`[${monitor.id}] Primary origin failed for ${new URL(request.url).pathname} (${reason}), retrying on ${proxy.backupOrigin}`);
+  try {
+    const backup = await fetch(toBackup(request, proxy.backupOrigin));
+    await primary?.body?.cancel();
+    return withOrigin(backup, 'backup');
+  } catch (error: any) {
+    logger.error(`[${monitor.id}] Backup origin ${proxy.backupOrigin} failed`, { error: error.message });
+    return primary ? withOrigin(primary, 'primary') : new Response('Bad Gateway', { status: 502 });
+  }
+}
+
+// Same method, path, query, headers and cookies; only the origin changes
+function toBackup(request: Request, backupOrigin: string): Request {
+  const backup = new Request(onOrigin(request.url, backupOrigin), request);
+  backup.headers.set('X-Forwarded-Host', new URL(request.url).host);
+  return backup;
+}
+
+function withOrigin(response: Response, origin: 'primary' | 'backup'): Response {
+  // WebSocket upgrades must be returned as they are
+  if (response.status === 101) {
+    return response;
+  }
+  const tagged = new Response(response.body, response);
+  tagged.headers.set(ORIGIN_HEADER, origin);
+  return tagged;
+}
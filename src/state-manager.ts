@@ -1,4 +1,22 @@
-import type { MonitorStateData, MaintenanceWindow } from './types';
+import type {
+  MonitorStateData,
+  MaintenanceWindow,
+  CheckDetails,
+  CertificateState,
+  BackupState,
+  FallbackPage,
+  PendingAction,
+  RedirectTarget,
+  RuntimeConfig,
+  TransitionVerification,
+} from './types';
+import { DEFAULT_MONITOR_ID } from './validation';
+
+// Each monitor gets its own Durable Object instance. The default monitor keeps
+// the original object name so single-site deployments retain their state.
+export function monitorObjectId(monitorId: string): string {
+  return monitorId === DEFAULT_MONITOR_ID ? 'monitor-state' : `monitor-state:${monitorId}`;
+}
 
 export class StateManager {
   private durableObject: DurableObjectStub;
@@ -16,9 +34,11 @@ export class StateManager {
     return await response.json();
   }
 
-  async incrementFailure(): Promise<MonitorStateData> {
+  async incrementFailure(reason: string, details: CheckDetails = {}): Promise<MonitorStateData> {
     const response = await this.durableObject.fetch('http://do/increment-failure', {
       method: 'POST',
+      body: JSON.stringify({ ...details, reason }),
+      headers: { 'Content-Type': 'application/json' },
     });
     if (!response.ok) {
       throw new Error('Failed to increment failure counter');
@@ -26,9 +46,11 @@ export class StateManager {
     return await response.json();
   }
 
-  async incrementRecovery(): Promise<MonitorStateData> {
+  async incrementRecovery(details: CheckDetails = {}): Promise<MonitorStateData> {
     const response = await this.durableObject.fetch('http://do/increment-recovery', {
       method: 'POST',
+      body: JSON.stringify(details),
+      headers: { 'Content-Type': 'application/json' },
     });
     if (!response.ok) {
       throw new Error('Failed to increment recovery counter');
@@ -36,6 +58,164 @@ export class StateManager {
     return await response.json();
   }
 
+  async recordInconclusiveCheck(): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/record-inconclusive', {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to record inconclusive check');
+    }
+    return await response.json();
+  }
+
+  async updateCertificate(certificate: CertificateState): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/update-certificate', {
+      method: 'POST',
+      body: JSON.stringify(certificate),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to update certificate');
+    }
+    return await response.json();
+  }
+
+  async updateBackupHealth(tier: string, health: BackupState): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/update-backup-health', {
+      method: 'POST',
+      body: JSON.stringify({ tier, health }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to update backup health');
+    }
+    return await response.json();
+  }
+
+  async recordFailoverDeferred(): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/record-failover-deferred', {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to record deferred failover');
+    }
+    return await response.json();
+  }
+
+  async recordReconcile(): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/record-reconcile', {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to record reconciliation');
+    }
+    return await response.json();
+  }
+
+  async recordDrift(reason: string, enabled: boolean, tier: string | null): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/record-drift', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason, enabled, tier }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to record redirect rule drift');
+    }
+    return await response.json();
+  }
+
+  async getFallbackPage(): Promise<FallbackPage | null> {
+    const response = await this.durableObject.fetch('http://do/fallback-page');
+    if (!response.ok) {
+      throw new Error('Failed to get fallback page');
+    }
+    return await response.json();
+  }
+
+  async setFallbackPage(html: string, retryAfterSeconds: number): Promise<FallbackPage> {
+    const response = await this.durableObject.fetch('http://do/fallback-page', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ html, retryAfterSeconds }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to store fallback page');
+    }
+    return await response.json();
+  }
+
+  async deleteFallbackPage(): Promise<void> {
+    const response = await this.durableObject.fetch('http://do/fallback-page', {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to delete fallback page');
+    }
+  }
+
+  async setRuntimeConfig(runtimeConfig: RuntimeConfig): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/set-runtime-config', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(runtimeConfig),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to store runtime config');
+    }
+    return await response.json();
+  }
+
+  async recordVerification(timestamp: string, verification: TransitionVerification): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/record-verification', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ timestamp, verification }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to record transition verification');
+    }
+    return await response.json();
+  }
+
+  async putPendingAction(action: PendingAction): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/put-pending-action', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(action),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to store pending action');
+    }
+    return await response.json();
+  }
+
+  async removePendingAction(tier: string): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/remove-pending-action', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tier }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to remove pending action');
+    }
+    return await response.json();
+  }
+
+  async recordRedirectEdit(
+    reason: string,
+    tier: string,
+    previousTarget: RedirectTarget,
+    target: RedirectTarget
+  ): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/record-redirect-edit', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason, tier, previousTarget, target }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to record redirect rule edit');
+    }
+    return await response.json();
+  }
+
   async resetCounters(): Promise<MonitorStateData> {
     const response = await this.durableObject.fetch('http://do/reset-counters', {
       method: 'POST',
@@ -56,10 +236,15 @@ export class StateManager {
     return await response.json();
   }
 
-  async updateRedirectRuleState(enabled: boolean, reason: string): Promise<MonitorStateData> {
+  async updateRedirectRuleState(
+    enabled: boolean,
+    reason: string,
+    tier?: string,
+    dryRun = false
+  ): Promise<MonitorStateData> {
     const response = await this.durableObject.fetch('http://do/update-redirect-rule-state', {
       method: 'POST',
-      body: JSON.stringify({ enabled, reason }),
+      body: JSON.stringify({ enabled, reason, tier, dryRun }),
       headers: { 'Content-Type': 'application/json' },
     });
     if (!response.ok) {
@@ -68,6 +253,18 @@ export class StateManager {
     return await response.json();
   }
 
+  async setFlapping(flapping: boolean): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/set-flapping', {
+      method: 'POST',
+      body: JSON.stringify({ flapping }),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    if (!response.ok) {
+      throw new Error('Failed to set flapping state');
+    }
+    return await response.json();
+  }
+
   async setMaintenanceMode(enabled: boolean, reason?: string): Promise<MonitorStateData> {
     const response = await this.durableObject.fetch('http://do/set-maintenance-mode', {
       method: 'POST',
@@ -122,19 +319,22 @@ export class StateManager {
     return await response.json();
   }
 
-  async updateCronExecution(): Promise<MonitorStateData> {
-    const response = await this.durableObject.fetch('http://do/update-cron-execution', {
+  async ensureAlarm(monitorId: string, intervalSeconds: number): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/ensure-alarm', {
       method: 'POST',
+      body: JSON.stringify({ monitorId, intervalSeconds }),
+      headers: { 'Content-Type': 'application/json' },
     });
     if (!response.ok) {
-      throw new Error('Failed to update cron execution');
+      throw new Error('Failed to ensure check alarm');
     }
     return await response.json();
   }
 
-  async disableApiCalls(): Promise<MonitorStateData> {
+  async disableApiCalls(reason: string): Promise<MonitorStateData> {
     const response = await this.durableObject.fetch('http://do/disable-api-calls', {
       method: 'POST',
+      body: JSON.stringify({ reason }),
     });
     if (!response.ok) {
       throw new Error('Failed to disable API calls');
@@ -142,6 +342,26 @@ export class StateManager {
     return await response.json();
   }
 
+  async enableApiCalls(): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/enable-api-calls', {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to enable API calls');
+    }
+    return await response.json();
+  }
+
+  async recordTokenVerification(): Promise<MonitorStateData> {
+    const response = await this.durableObject.fetch('http://do/record-token-verification', {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to record token verification');
+    }
+    return await response.json();
+  }
+
   async simulateFailover(threshold: number): Promise<MonitorStateData> {
     const response = await this.durableObject.fetch('http://do/simulate-failover', {
       method: 'POST',
@@ -0,0 +1,56 @@
+import type { MonitorConfig, MonitorStateData } from './types';
+
+// Capacity of the recent-results ring buffer kept in the Durable Object
+export const MAX_WINDOW_SIZE = 100;
+
+export interface TriggerDecision {
+  reached: boolean;
+  reason: string;
+}
+
+export interface WindowCounts {
+  checks: number;
+  failures: number;
+  successes: number;
+}
+
+// Outcome counts over the last windowSize checks
+export function getWindowCounts(monitor: MonitorConfig, state: MonitorStateData): WindowCounts {
+  const window = state.recentResults.slice(-monitor.windowSize);
+  const successes = window.filter(success => success).length;
+  return {
+    checks: window.length,
+    failures: window.length - successes,
+    successes,
+  };
+}
+
+export function checkFailureTrigger(monitor: MonitorConfig, state: MonitorStateData): TriggerDecision {
+  if (monitor.triggerMode === 'window') {
+    const counts = getWindowCounts(monitor, state);
+    return {
+      reached: counts.failures >= monitor.windowFailureThreshold,
+      reason: `Failure rate threshold reached (${counts.failures} of last ${counts.checks} checks failed)`,
+    };
+  }
+
+  return {
+    reached: state.failureCount >= monitor.failureCountThreshold,
+    reason: `Failure threshold reached (${monitor.failureCountThreshold} consecutive failures)`,
+  };
+}
+
+export function checkRecoveryTrigger(monitor: MonitorConfig, state: MonitorStateData): TriggerDecision {
+  if (monitor.triggerMode === 'window') {
+    const counts = getWindowCounts(monitor, state);
+    return {
+      reached: counts.successes >= monitor.windowRecoveryThreshold,
+      reason: `Recovery rate threshold reached (${counts.successes} of last ${counts.checks} checks succeeded)`,
+    };
+  }
+
+  return {
+    reached: state.recoveryCount >= monitor.recoveryCountThreshold,
+    reason: `Recovery threshold reached (${monitor.recoveryCountThreshold} consecutive successes)`,
+  };
+}
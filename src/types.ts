@@ -1,12 +1,24 @@
 // Environment variables
 export interface Env {
-  MONITOR_URL: string;
+  MONITORS?: string | MonitorDefinition[];
+  MONITOR_URL?: string;
   FAILURE_COUNT_THRESHOLD: string;
   RECOVERY_COUNT_THRESHOLD: string;
   TIMEOUT_SECONDS: string;
-  REDIRECT_RULE_ID: string;
+  CHECK_INTERVAL_SECONDS?: string;
+  SLOW_THRESHOLD_MS?: string;
+  SLOW_CHECK_MODE?: string;
+  CERTIFICATE_WARN_DAYS?: string;
+  DRIFT_POLICY?: string;
+  RECONCILE_INTERVAL_SECONDS?: string;
+  DRY_RUN?: string;
+  API_RETRY_ATTEMPTS?: string;
+  API_RETRY_BASE_DELAY_MS?: string;
+  API_RETRY_MAX_DELAY_MS?: string;
+  REDIRECT_RULE_ID?: string;
+  RULESET_ID?: string;
   ACCOUNT_ID: string;
-  ZONE_ID: string;
+  ZONE_ID?: string;
   CLOUDFLARE_API_TOKEN: string;
   LOG_LEVEL?: string;
   API_TOKEN: string;
@@ -18,6 +30,7 @@ export interface MonitorStateData {
   failureCount: number;
   recoveryCount: number;
   lastCheckTime: string | null;
+  nextCheckTime: string | null; // When the Durable Object alarm will run the next check
   redirectRuleEnabled: boolean;
   maintenanceMode: boolean;
   maintenanceModeReason?: string;
@@ -29,8 +42,84 @@ export interface MonitorStateData {
   redirectRuleChangesTotal: number;
   apiErrorsTotal: number;
   lastCronExecution: string | null;
+  alarmRearmsTotal: number; // Times the cron watchdog had to restart a dead alarm
   workerStartTime: string;
-  apiCallsDisabled: boolean; // If authentication fails
+  apiCallsDisabled: boolean; // If authentication fails; cleared once the token verifies again
+  apiCallsDisabledReason: string | null;
+  apiCallsDisabledSince: string | null;
+  lastTokenVerifyTime: string | null; // Last re-verification attempt while API calls are disabled
+  lastFailureReason: string | null;
+  lastFailureTime: string | null;
+  latencySamples: number[]; // Most recent response times in ms, newest last
+  lastLatencyMs: number | null;
+  degraded: boolean; // Last check passed but exceeded the slow threshold
+  slowChecksTotal: number;
+  recentResults: boolean[]; // Ring buffer of recent check outcomes (true = success), newest last
+  flappingSince: string | null; // Set while too many transitions happened within the last hour
+  confirmedFailuresTotal: number; // Failures reproduced by the confirmation re-probe
+  transientFailuresTotal: number; // Failures that passed on the confirmation re-probe
+  inconclusiveChecksTotal: number; // Responses that came back through our own redirect
+  certificate: CertificateState | null; // Last origin certificate read, null until the first read
+  activeTier: string | null; // Failover tier whose redirect rule is enabled
+  tierHealth: Record<string, BackupState>; // Last probe of each failover tier, by tier name
+  failoversDeferredTotal: number; // Failovers held back because the backup was unhealthy
+  lastReconcileTime: string | null; // Last comparison of the stored state with the rules in Cloudflare
+  driftEventsTotal: number; // Rule changes made outside the worker
+  dryRunDecisionsTotal: number; // Changes recorded but not made while in dry-run mode
+  pendingActions: PendingAction[]; // Failed tier changes waiting to be retried, at most one per tier
+  lastVerification: TransitionVerification | null; // Result for the most recent verified transition
+  verificationFailuresTotal: number;
+  runtimeConfig: RuntimeConfig | null; // Settings made through the API, used where the environment has none
+}
+
+// Redirect rule provisioned through the API, for monitors configured without REDIRECT_RULE_ID
+export interface RuntimeConfig {
+  redirectRuleId: string;
+  rulesetId: string;
+  targetUrl: string;
+  provisionedAt: string;
+}
+
+// A tier activation or deactivation that failed and is retried with backoff
+export interface PendingAction {
+  tier: string;
+  active: boolean; // Whether the tier should be activated or deactivated
+  reason: string; // Recorded in the history once the change succeeds
+  createdAt: string;
+  attempts: number;
+  lastAttemptAt: string;
+  nextAttemptAt: string;
+}
+
+export interface BackupState {
+  url: string;
+  healthy: boolean;
+  checkedAt: string;
+  failureReason: string | null;
+  latencyMs: number | null;
+}
+
+export interface CertificateInfo {
+  subject: string;
+  issuer: string;
+  validFrom: string;
+  validTo: string;
+  subjectAltNames: string[];
+}
+
+export interface CertificateState {
+  checkedAt: string;
+  info: CertificateInfo | null; // Kept from the previous read when a read fails
+  error: string | null; // Why the last read failed
+  warnedAtDays: number | null; // Smallest expiry threshold already warned about
+}
+
+// Extra information recorded with each check result
+export interface CheckDetails {
+  latencyMs?: number | null;
+  degraded?: boolean;
+  confirmed?: boolean; // Failure was reproduced by the confirmation re-probe
+  transientFailure?: boolean; // Initial probe failed but the confirmation re-probe passed
 }
 
 export interface MaintenanceWindow {
@@ -42,23 +131,338 @@ export interface MaintenanceWindow {
 
 export interface RedirectRuleHistoryEntry {
   timestamp: string;
-  event: 'enabled' | 'disabled';
+  // switched: moved to another failover tier; drift: changed outside the worker; edited: redirect target changed via the API
+  event: 'enabled' | 'disabled' | 'switched' | 'drift' | 'edited';
   reason: string;
+  tier?: string; // Failover tier activated (enabled/switched) or deactivated (disabled)
+  dryRun?: boolean; // The change was only recorded, not made
+  verification?: TransitionVerification; // Whether the public URL behaved as expected afterwards
+  previousTarget?: RedirectTarget; // Before an edit, for rolling it back
+  target?: RedirectTarget; // After an edit
   failureCount: number;
   recoveryCount: number;
 }
 
+// Which requests a redirect rule matches and where it sends them
+export interface RedirectTarget {
+  expression: string;
+  targetUrl: string | null; // Static target; null for expression-based targets
+  targetExpression: string | null; // Dynamic target, e.g. concat("https://backup.example.com", http.request.uri.path)
+  statusCode: number | null;
+  preserveQueryString: boolean;
+}
+
+// Result of requesting the public URL after a transition
+export interface TransitionVerification {
+  verifiedAt: string;
+  passed: boolean;
+  attempts: number;
+  statusCode: number | null;
+  location: string | null; // Location header of the last response
+  failureReason: string | null;
+}
+
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
-export interface ValidatedConfig {
+// What to do when a failover action was changed outside the worker
+export type DriftPolicy = 'adopt' | 'restore';
+
+// How a check slower than the slow threshold is treated
+export type SlowCheckMode = 'failure' | 'degraded';
+
+// consecutive: N failures/successes in a row
+// window: X failures (or successes) out of the last N checks
+export type TriggerMode = 'consecutive' | 'window';
+
+// Conditions a probe response must meet to count as healthy.
+// Without assertions only HTTP 200 is healthy.
+export interface HealthCheckAssertions {
+  statusCodes?: (number | string)[]; // 200, "200-299" or "2xx"
+  bodyContains?: string[];
+  bodyNotContains?: string[];
+  bodyMatches?: string[]; // Regular expression sources
+  bodyNotMatches?: string[];
+  jsonPath?: JsonPathAssertion[];
+  requiredHeaders?: HeaderAssertion[];
+}
+
+export interface JsonPathAssertion {
+  path: string; // e.g. "$.checks.database.status" or "items[0].ok"
+  equals: unknown;
+}
+
+export interface HeaderAssertion {
+  name: string;
+  value?: string; // Omit to only require the header to be present
+}
+
+export type ProbeType = 'http' | 'tcp' | 'tls' | 'dns';
+
+export type DnsRecordType = 'A' | 'AAAA' | 'CNAME';
+
+// Probe request as written in the MONITORS variable. Header values may
+// reference environment variables or secrets as ${NAME}.
+export interface ProbeDefinition {
+  type?: ProbeType; // Defaults to "http"
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | Record<string, unknown> | unknown[]; // Objects and arrays are sent as JSON
+  redirect?: 'manual' | 'follow';
+  expectedFinalUrl?: string; // Only with redirect "follow"
+  host?: string; // tcp/tls: defaults to the monitor URL's hostname
+  port?: number; // tcp: required, tls: defaults to 443
+  banner?: string; // tcp/tls: pattern the first bytes received must match
+  dnsName?: string; // dns: defaults to the monitor URL's hostname
+  recordType?: DnsRecordType; // dns: defaults to "A"
+  expectedAnswers?: string[]; // dns: records that must all be present
+  resolverUrl?: string; // dns: DNS-over-HTTPS JSON endpoint
+}
+
+export interface ProbeConfig {
+  type: ProbeType;
+  method: string;
+  headers: Record<string, string>; // Secrets already interpolated
+  body: string | null;
+  redirect: 'manual' | 'follow';
+  expectedFinalUrl: string | null;
+  host: string | null; // null means the monitor URL's hostname
+  port: number | null;
+  banner: string | null;
+  dnsName: string | null; // null means the monitor URL's hostname
+  recordType: DnsRecordType;
+  expectedAnswers: string[];
+  resolverUrl: string;
+}
+
+// Probe the origin directly so an active redirect rule doesn't hide recovery
+export interface OriginProbeConfig {
+  address: string; // Origin hostname in the same zone, used as a resolve override for the public URL
+}
+
+// Where and when to read the origin certificate for expiry warnings
+export interface CertificateDefinition {
+  enabled?: boolean; // Defaults to true once certificate is set
+  host?: string; // Origin address; defaults to the origin probe address
+  port?: number; // Defaults to the monitor URL's port
+  warnDays?: number[]; // Defaults to CERTIFICATE_WARN_DAYS
+}
+
+export interface CertificateConfig {
+  host: string;
+  port: number;
+  serverName: string; // SNI, always the monitor URL's hostname
+  warnDays: number[];
+}
+
+export type BackupUnhealthyAction = 'defer' | 'proceed';
+
+// Health check of the failover destination before redirecting visitors to it
+export interface BackupCheckDefinition {
+  enabled?: boolean; // Defaults to true
+  url?: string; // Defaults to failoverTargetUrl, then the redirect rule's target URL
+  onUnhealthy?: BackupUnhealthyAction; // Defaults to "defer"
+  assertions?: HealthCheckAssertions; // Defaults to any 2xx status
+}
+
+export interface BackupCheckConfig {
+  url: string | null; // null means read from the redirect rule
+  onUnhealthy: BackupUnhealthyAction;
+  probe: ProbeConfig;
+  assertions: HealthCheckAssertions;
+}
+
+// How a failover tier moves traffic away from the primary
+export type FailoverActionType = 'redirect-rule' | 'dns-record' | 'load-balancer-pool' | 'http' | 'fallback-page' | 'proxy';
+
+export interface FailoverActionDefinition {
+  type: FailoverActionType;
+  // redirect-rule
+  redirectRuleId?: string;
+  rulesetId?: string; // Defaults to the monitor's rulesetId
+  // dns-record
+  recordId?: string;
+  primaryContent?: string; // Record content while healthy, restored on recovery
+  failoverContent?: string; // Record content while failed over
+  // load-balancer-pool
+  poolId?: string;
+  originName?: string; // Disable only this origin instead of the whole pool
+  // http
+  url?: string;
+  method?: string; // Defaults to POST
+  headers?: Record<string, string>;
+  // proxy
+  backupOrigin?: string;
+  timeoutMs?: number; // Primary origin timeout before falling back, defaults to 10000
+  fallbackOnError?: boolean; // Defaults to true
+}
+
+export interface RedirectRuleActionConfig {
+  type: 'redirect-rule';
+  redirectRuleId: string | null; // null until provisioned through the API
+  rulesetId: string | null; // null means redirectRuleId is a whole ruleset (legacy)
+}
+
+export interface DnsRecordActionConfig {
+  type: 'dns-record';
+  recordId: string;
+  primaryContent: string;
+  failoverContent: string;
+}
+
+// Failing over disables the primary pool (or one of its origins), so the load
+// balancer sends traffic to its remaining pools
+export interface LoadBalancerPoolActionConfig {
+  type: 'load-balancer-pool';
+  poolId: string;
+  originName: string | null;
+}
+
+export interface HttpActionConfig {
+  type: 'http';
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+}
+
+// The worker, bound to the site's route, serves the fallback page itself while failed over
+export interface FallbackPageActionConfig {
+  type: 'fallback-page';
+}
+
+// The worker, bound to the site's route, proxies to the primary origin and, while
+// failed over, to the backup origin
+export interface ProxyActionConfig {
+  type: 'proxy';
+  backupOrigin: string; // Scheme and host, e.g. https://backup.example.com
+  timeoutMs: number;
+  fallbackOnError: boolean; // Retry a GET, HEAD or OPTIONS request on the backup origin when the primary returns 5xx or times out
+}
+
+export type FailoverActionConfig =
+  | RedirectRuleActionConfig
+  | DnsRecordActionConfig
+  | LoadBalancerPoolActionConfig
+  | HttpActionConfig
+  | FallbackPageActionConfig
+  | ProxyActionConfig;
+
+// Page served with a 503 while a fallback-page tier is active
+export interface FallbackPage {
+  html: string;
+  retryAfterSeconds: number;
+  updatedAt: string | null; // null for the built-in page
+}
+
+// One failover destination. Tiers are listed in priority order.
+export interface FailoverTierDefinition {
+  name: string;
+  redirectRuleId?: string; // Shorthand for a redirect-rule action
+  rulesetId?: string; // Defaults to the monitor's rulesetId
+  action?: FailoverActionDefinition; // Replaces redirectRuleId and rulesetId
+  targetUrl?: string; // Where the tier sends visitors
+  backupCheck?: BackupCheckDefinition;
+}
+
+export interface FailoverTierConfig {
+  name: string;
+  action: FailoverActionConfig;
+  targetUrl: string | null;
+  backupCheck: BackupCheckConfig | null; // null disables the tier's health check
+}
+
+// Re-probe a failed check before counting it as a failure
+export interface ConfirmationConfig {
+  delayMs: number;
+  url?: string; // Alternate URL for the re-probe, e.g. an origin hostname
+}
+
+// Request the public URL after each transition to check the redirect took effect
+export interface VerificationDefinition {
+  enabled?: boolean; // Defaults to true
+  delayMs?: number; // Wait before each attempt, for the change to propagate
+  attempts?: number;
+}
+
+export interface VerificationConfig {
+  delayMs: number;
+  attempts: number;
+}
+
+// Monitor registry entry as written in the MONITORS variable.
+// Omitted thresholds fall back to the global environment variables.
+export interface MonitorDefinition {
+  id: string;
   monitorUrl: string;
+  redirectRuleId?: string; // Not needed when action or failoverTiers is set, or when provisioned through the API
+  rulesetId?: string; // Ruleset containing the redirect rule(s); defaults to RULESET_ID
+  action?: FailoverActionDefinition; // Replaces redirectRuleId for monitors without failoverTiers
+  zoneId?: string;
+  failureCountThreshold?: number;
+  recoveryCountThreshold?: number;
+  timeoutSeconds?: number;
+  checkIntervalSeconds?: number;
+  slowThresholdMs?: number;
+  slowCheckMode?: SlowCheckMode;
+  triggerMode?: TriggerMode;
+  windowSize?: number;
+  windowFailureThreshold?: number;
+  windowRecoveryThreshold?: number;
+  minDwellSeconds?: number;
+  maxTransitionsPerHour?: number;
+  driftPolicy?: DriftPolicy;
+  reconcileIntervalSeconds?: number;
+  dryRun?: boolean;
+  confirmation?: ConfirmationConfig;
+  verification?: VerificationDefinition;
+  failoverTargetUrl?: string;
+  originProbe?: OriginProbeConfig;
+  certificate?: CertificateDefinition;
+  backupCheck?: BackupCheckDefinition;
+  failoverTiers?: FailoverTierDefinition[]; // Replaces redirectRuleId, action, failoverTargetUrl and backupCheck
+  probe?: ProbeDefinition;
+  assertions?: HealthCheckAssertions;
+}
+
+export interface MonitorConfig {
+  id: string;
+  monitorUrl: string;
+  zoneId: string;
   failureCountThreshold: number;
   recoveryCountThreshold: number;
   timeoutSeconds: number;
-  redirectRuleId: string;
+  checkIntervalSeconds: number;
+  slowThresholdMs: number | null;
+  slowCheckMode: SlowCheckMode;
+  triggerMode: TriggerMode;
+  windowSize: number;
+  windowFailureThreshold: number;
+  windowRecoveryThreshold: number;
+  minDwellSeconds: number; // 0 disables the dwell time
+  maxTransitionsPerHour: number | null; // null disables flap detection
+  driftPolicy: DriftPolicy;
+  reconcileIntervalSeconds: number; // 0 disables reconciliation
+  dryRun: boolean; // Record failover decisions without making them
+  confirmation: ConfirmationConfig | null; // null disables the confirmation re-probe
+  verification: VerificationConfig | null; // null disables post-transition verification
+  originProbe: OriginProbeConfig | null;
+  certificate: CertificateConfig | null; // null disables certificate expiry monitoring
+  tiers: FailoverTierConfig[]; // Highest priority first; a single tier unless failoverTiers is set
+  probe: ProbeConfig;
+  assertions: HealthCheckAssertions;
+}
+
+// Retries of Cloudflare API changes that failed with 429, 5xx or a network error
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number; // Doubled after every attempt, with jitter
+  maxDelayMs: number; // Upper bound per wait; a longer Retry-After ends the retries
+}
+
+export interface ValidatedConfig {
+  monitors: MonitorConfig[];
   accountId: string;
-  zoneId: string;
   cloudflareApiToken: string;
   logLevel: LogLevel;
   apiToken: string;
+  apiRetry: RetryPolicy;
 }
@@ -1,5 +1,76 @@
-import type { Env, ValidatedConfig, LogLevel } from './types';
+import type {
+  Env,
+  ValidatedConfig,
+  LogLevel,
+  MonitorDefinition,
+  MonitorConfig,
+  HealthCheckAssertions,
+  SlowCheckMode,
+  TriggerMode,
+  DriftPolicy,
+  ProbeDefinition,
+  ProbeConfig,
+  ProbeType,
+  DnsRecordType,
+  CertificateConfig,
+  BackupCheckConfig,
+  BackupCheckDefinition,
+  BackupUnhealthyAction,
+  FailoverTierConfig,
+  FailoverActionConfig,
+  FailoverActionDefinition,
+  FailoverActionType,
+  RetryPolicy,
+  VerificationConfig,
+} from './types';
 import { Logger } from './logger';
+import { DEFAULT_RETRY_POLICY } from './cloudflare-api';
+import { parseJsonPath } from './health-check';
+import { MAX_WINDOW_SIZE } from './trigger';
+
+export const DEFAULT_MONITOR_ID = 'default';
+
+export const DEFAULT_TIER_NAME = 'default';
+
+const MONITOR_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const SLOW_CHECK_MODES: SlowCheckMode[] = ['failure', 'degraded'];
+
+const TRIGGER_MODES: TriggerMode[] = ['consecutive', 'window'];
+
+const DEFAULT_WINDOW_SIZE = 10;
+
+const DRIFT_POLICIES: DriftPolicy[] = ['adopt', 'restore'];
+
+const FAILOVER_ACTION_TYPES: FailoverActionType[] = ['redirect-rule', 'dns-record', 'load-balancer-pool', 'http', 'fallback-page', 'proxy'];
+
+const HTTP_ACTION_METHODS = ['POST', 'PUT', 'PATCH'];
+const DEFAULT_PROXY_TIMEOUT_MS = 10000;
+
+const DEFAULT_RECONCILE_INTERVAL_SECONDS = 300;
+
+const DEFAULT_VERIFICATION_DELAY_MS = 5000;
+const DEFAULT_VERIFICATION_ATTEMPTS = 3;
+
+// Hostnames only: IPv4 literals are all digits and IPv6 literals contain colons
+const ORIGIN_ADDRESS_PATTERN = /^(?![0-9.]+$)[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*$/;
+
+const BACKUP_UNHEALTHY_ACTIONS: BackupUnhealthyAction[] = ['defer', 'proceed'];
+
+const DEFAULT_CERTIFICATE_WARN_DAYS = [30, 14, 7];
+
+const PROBE_TYPES: ProbeType[] = ['http', 'tcp', 'tls', 'dns'];
+
+const DNS_RECORD_TYPES: DnsRecordType[] = ['A', 'AAAA', 'CNAME'];
+
+const DEFAULT_DOH_RESOLVER_URL = 'https://cloudflare-dns.com/dns-query';
+
+const PROBE_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+const DEFAULT_USER_AGENT = 'Site-Failover-Worker/1.0 (Cloudflare Workers) PDZRKZMkd2tnsg';
+
+const DEFAULT_CHECK_INTERVAL_SECONDS = 60;
+const MIN_CHECK_INTERVAL_SECONDS = 5;
 
 export class ValidationError extends Error {
   constructor(message: string) {
@@ -11,20 +82,6 @@ export class ValidationError extends Error {
 export function validateEnvironment(env: Env, logger: Logger): ValidatedConfig {
   const errors: string[] = [];
 
-  // Validate MONITOR_URL
-  if (!env.MONITOR_URL) {
-    errors.push('MONITOR_URL is required');
-  } else {
-    try {
-      const url = new URL(env.MONITOR_URL);
-      if (url.protocol !== 'https:') {
-        errors.push('MONITOR_URL must be an HTTPS URL');
-      }
-    } catch {
-      errors.push('MONITOR_URL must be a valid URL');
-    }
-  }
-
   // Validate FAILURE_COUNT_THRESHOLD
   const failureCountThreshold = parseInt(env.FAILURE_COUNT_THRESHOLD, 10);
   if (!env.FAILURE_COUNT_THRESHOLD || isNaN(failureCountThreshold) || failureCountThreshold <= 0) {
@@ -43,9 +100,103 @@ export function validateEnvironment(env: Env, logger: Logger): ValidatedConfig {
     errors.push('TIMEOUT_SECONDS must be between 1 and 30');
   }
 
-  // Validate REDIRECT_RULE_ID
-  if (!env.REDIRECT_RULE_ID) {
-    errors.push('REDIRECT_RULE_ID is required');
+  // Validate CHECK_INTERVAL_SECONDS (optional)
+  const checkIntervalSeconds = env.CHECK_INTERVAL_SECONDS
+    ? parseInt(env.CHECK_INTERVAL_SECONDS, 10)
+    : DEFAULT_CHECK_INTERVAL_SECONDS;
+  if (isNaN(checkIntervalSeconds) || checkIntervalSeconds < MIN_CHECK_INTERVAL_SECONDS || checkIntervalSeconds > 3600) {
+    errors.push(`CHECK_INTERVAL_SECONDS must be between ${MIN_CHECK_INTERVAL_SECONDS} and 3600`);
+  }
+
+  // Validate SLOW_THRESHOLD_MS (optional)
+  const slowThresholdMs = env.SLOW_THRESHOLD_MS ? parseInt(env.SLOW_THRESHOLD_MS, 10) : null;
+  if (slowThresholdMs !== null && (isNaN(slowThresholdMs) || slowThresholdMs <= 0)) {
+    errors.push('SLOW_THRESHOLD_MS must be a positive integer');
+  }
+
+  // Validate SLOW_CHECK_MODE (optional)
+  const slowCheckMode = (env.SLOW_CHECK_MODE || 'failure').toLowerCase() as SlowCheckMode;
+  if (!SLOW_CHECK_MODES.includes(slowCheckMode)) {
+    errors.push('SLOW_CHECK_MODE must be one of: failure, degraded');
+  }
+
+  // Validate DRIFT_POLICY (optional)
+  const driftPolicy = (env.DRIFT_POLICY || 'adopt').toLowerCase() as DriftPolicy;
+  if (!DRIFT_POLICIES.includes(driftPolicy)) {
+    errors.push(`DRIFT_POLICY must be one of: ${DRIFT_POLICIES.join(', ')}`);
+  }
+
+  // Validate RECONCILE_INTERVAL_SECONDS (optional, 0 disables)
+  const reconcileIntervalSeconds = env.RECONCILE_INTERVAL_SECONDS
+    ? parseInt(env.RECONCILE_INTERVAL_SECONDS, 10)
+    : DEFAULT_RECONCILE_INTERVAL_SECONDS;
+  if (isNaN(reconcileIntervalSeconds) || reconcileIntervalSeconds < 0) {
+    errors.push('RECONCILE_INTERVAL_SECONDS must be a non-negative integer');
+  }
+
+  // Validate DRY_RUN (optional)
+  const dryRunSetting = (env.DRY_RUN || 'false').toLowerCase();
+  if (dryRunSetting !== 'true' && dryRunSetting !== 'false') {
+    errors.push('DRY_RUN must be "true" or "false"');
+  }
+  const dryRun = dryRunSetting === 'true';
+
+  // Validate CERTIFICATE_WARN_DAYS (optional)
+  const certificateWarnDays = env.CERTIFICATE_WARN_DAYS
+    ? env.CERTIFICATE_WARN_DAYS.split(',').map(days => Number(days.trim()))
+    : DEFAULT_CERTIFICATE_WARN_DAYS;
+  if (!isValidWarnDays(certificateWarnDays)) {
+    errors.push('CERTIFICATE_WARN_DAYS must be a comma-separated list of positive integers');
+  }
+
+  // Build the monitor registry: MONITORS if set, otherwise a single
+  // "default" monitor from MONITOR_URL/REDIRECT_RULE_ID
+  let definitions: MonitorDefinition[] = [];
+  if (env.MONITORS) {
+    try {
+      const parsed = typeof env.MONITORS === 'string' ? JSON.parse(env.MONITORS) : env.MONITORS;
+      if (!Array.isArray(parsed) || parsed.length === 0) {
+        errors.push('MONITORS must be a non-empty JSON array');
+      } else {
+        definitions = parsed;
+      }
+    } catch {
+      errors.push('MONITORS must be valid JSON');
+    }
+  } else {
+    definitions = [{
+      id: DEFAULT_MONITOR_ID,
+      monitorUrl: env.MONITOR_URL as string,
+      redirectRuleId: env.REDIRECT_RULE_ID as string,
+    }];
+  }
+
+  const defaults = {
+    failureCountThreshold,
+    recoveryCountThreshold,
+    timeoutSeconds,
+    checkIntervalSeconds,
+    slowThresholdMs,
+    slowCheckMode,
+    driftPolicy,
+    reconcileIntervalSeconds,
+    dryRun,
+    certificateWarnDays,
+    zoneId: env.ZONE_ID,
+    rulesetId: env.RULESET_ID,
+  };
+  const monitors: MonitorConfig[] = [];
+  const seenIds = new Set<string>();
+  for (const definition of definitions) {
+    const monitor = validateMonitor(definition, defaults, env, errors);
+    if (!monitor) {
+      continue;
+    }
+    if (seenIds.has(monitor.id)) {
+      errors.push(`Monitor id "${monitor.id}" is used more than once`);
+    }
+    seenIds.add(monitor.id);
+    monitors.push(monitor);
   }
 
   // Validate ACCOUNT_ID
@@ -53,11 +204,6 @@ export function validateEnvironment(env: Env, logger: Logger): ValidatedConfig {
     errors.push('ACCOUNT_ID is required');
   }
 
-  // Validate ZONE_ID
-  if (!env.ZONE_ID) {
-    errors.push('ZONE_ID is required');
-  }
-
   // Validate CLOUDFLARE_API_TOKEN
   if (!env.CLOUDFLARE_API_TOKEN) {
     errors.push('CLOUDFLARE_API_TOKEN is required');
@@ -75,6 +221,22 @@ export function validateEnvironment(env: Env, logger: Logger): ValidatedConfig {
     errors.push('LOG_LEVEL must be one of: debug, info, warn, error');
   }
 
+  // Validate API_RETRY_* (optional)
+  const apiRetry: RetryPolicy = {
+    maxAttempts: env.API_RETRY_ATTEMPTS ? parseInt(env.API_RETRY_ATTEMPTS, 10) : DEFAULT_RETRY_POLICY.maxAttempts,
+    baseDelayMs: env.API_RETRY_BASE_DELAY_MS ? parseInt(env.API_RETRY_BASE_DELAY_MS, 10) : DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: env.API_RETRY_MAX_DELAY_MS ? parseInt(env.API_RETRY_MAX_DELAY_MS, 10) : DEFAULT_RETRY_POLICY.maxDelayMs,
+  };
+  if (isNaN(apiRetry.maxAttempts) || apiRetry.maxAttempts < 1 || apiRetry.maxAttempts > 10) {
+    errors.push('API_RETRY_ATTEMPTS must be between 1 and 10');
+  }
+  if (isNaN(apiRetry.baseDelayMs) || apiRetry.baseDelayMs < 0) {
+    errors.push('API_RETRY_BASE_DELAY_MS must be a non-negative integer');
+  }
+  if (isNaN(apiRetry.maxDelayMs) || apiRetry.maxDelayMs < apiRetry.baseDelayMs) {
+    errors.push('API_RETRY_MAX_DELAY_MS must be an integer no smaller than API_RETRY_BASE_DELAY_MS');
+  }
+
   if (errors.length > 0) {
     const errorMessage = 'Environment validation failed:\n' + errors.map(e => `  - ${e}`).join('\n');
     logger.error(errorMessage);
@@ -82,15 +244,676 @@ export function validateEnvironment(env: Env, logger: Logger): ValidatedConfig {
   }
 
   return {
-    monitorUrl: env.MONITOR_URL,
-    failureCountThreshold,
-    recoveryCountThreshold,
-    timeoutSeconds,
-    redirectRuleId: env.REDIRECT_RULE_ID,
+    monitors,
     accountId: env.ACCOUNT_ID,
-    zoneId: env.ZONE_ID,
     cloudflareApiToken: env.CLOUDFLARE_API_TOKEN,
     logLevel,
     apiToken: env.API_TOKEN,
+    apiRetry,
+  };
+}
+
+interface MonitorDefaults {
+  failureCountThreshold: number;
+  recoveryCountThreshold: number;
+  timeoutSeconds: number;
+  checkIntervalSeconds: number;
+  slowThresholdMs: number | null;
+  slowCheckMode: SlowCheckMode;
+  driftPolicy: DriftPolicy;
+  reconcileIntervalSeconds: number;
+  dryRun: boolean;
+  certificateWarnDays: number[];
+  zoneId?: string;
+  rulesetId?: string;
+}
+
+function validateMonitor(
+  definition: MonitorDefinition,
+  defaults: MonitorDefaults,
+  env: Env,
+  errors: string[]
+): MonitorConfig | null {
+  const legacy = !env.MONITORS;
+
+  if (!definition || typeof definition !== 'object') {
+    errors.push('MONITORS entries must be objects');
+    return null;
+  }
+
+  // Legacy single-monitor setups report errors against the original variable names
+  const field = (name: string, legacyName: string) =>
+    legacy ? legacyName : `MONITORS[${definition.id}].${name}`;
+
+  if (!legacy && (typeof definition.id !== 'string' || !MONITOR_ID_PATTERN.test(definition.id))) {
+    errors.push('Monitor id must contain only letters, digits, "-" and "_"');
+    return null;
+  }
+
+  // Validate monitor URL
+  if (!definition.monitorUrl) {
+    errors.push(`${field('monitorUrl', 'MONITOR_URL')} is required`);
+  } else {
+    try {
+      const url = new URL(definition.monitorUrl);
+      if (url.protocol !== 'https:') {
+        errors.push(`${field('monitorUrl', 'MONITOR_URL')} must be an HTTPS URL`);
+      }
+    } catch {
+      errors.push(`${field('monitorUrl', 'MONITOR_URL')} must be a valid URL`);
+    }
+  }
+
+  // Validate zone ID
+  const zoneId = definition.zoneId || defaults.zoneId;
+  if (!zoneId) {
+    errors.push(legacy ? 'ZONE_ID is required' : `MONITORS[${definition.id}].zoneId is required when ZONE_ID is not set`);
+  }
+
+  // Validate threshold overrides (the global defaults are validated above)
+  const failureCountThreshold = definition.failureCountThreshold ?? defaults.failureCountThreshold;
+  if (definition.failureCountThreshold !== undefined &&
+      (!Number.isInteger(failureCountThreshold) || failureCountThreshold <= 0)) {
+    errors.push(`MONITORS[${definition.id}].failureCountThreshold must be a positive integer`);
+  }
+
+  const recoveryCountThreshold = definition.recoveryCountThreshold ?? defaults.recoveryCountThreshold;
+  if (definition.recoveryCountThreshold !== undefined &&
+      (!Number.isInteger(recoveryCountThreshold) || recoveryCountThreshold <= 0)) {
+    errors.push(`MONITORS[${definition.id}].recoveryCountThreshold must be a positive integer`);
+  }
+
+  const timeoutSeconds = definition.timeoutSeconds ?? defaults.timeoutSeconds;
+  if (definition.timeoutSeconds !== undefined &&
+      (!Number.isInteger(timeoutSeconds) || timeoutSeconds < 1 || timeoutSeconds > 30)) {
+    errors.push(`MONITORS[${definition.id}].timeoutSeconds must be between 1 and 30`);
+  }
+
+  const checkIntervalSeconds = definition.checkIntervalSeconds ?? defaults.checkIntervalSeconds;
+  if (definition.checkIntervalSeconds !== undefined &&
+      (!Number.isInteger(checkIntervalSeconds) ||
+        checkIntervalSeconds < MIN_CHECK_INTERVAL_SECONDS ||
+        checkIntervalSeconds > 3600)) {
+    errors.push(`MONITORS[${definition.id}].checkIntervalSeconds must be between ${MIN_CHECK_INTERVAL_SECONDS} and 3600`);
+  }
+
+  const slowThresholdMs = definition.slowThresholdMs ?? defaults.slowThresholdMs;
+  if (definition.slowThresholdMs !== undefined &&
+      (!Number.isInteger(definition.slowThresholdMs) || definition.slowThresholdMs <= 0)) {
+    errors.push(`MONITORS[${definition.id}].slowThresholdMs must be a positive integer`);
+  }
+
+  const slowCheckMode = definition.slowCheckMode ?? defaults.slowCheckMode;
+  if (definition.slowCheckMode !== undefined && !SLOW_CHECK_MODES.includes(slowCheckMode)) {
+    errors.push(`MONITORS[${definition.id}].slowCheckMode must be one of: failure, degraded`);
+  }
+
+  // Validate trigger mode and sliding window settings
+  const triggerMode = definition.triggerMode ?? 'consecutive';
+  if (!TRIGGER_MODES.includes(triggerMode)) {
+    errors.push(`MONITORS[${definition.id}].triggerMode must be one of: consecutive, window`);
+  }
+
+  const windowSize = definition.windowSize ?? DEFAULT_WINDOW_SIZE;
+  if (!Number.isInteger(windowSize) || windowSize < 1 || windowSize > MAX_WINDOW_SIZE) {
+    errors.push(`MONITORS[${definition.id}].windowSize must be between 1 and ${MAX_WINDOW_SIZE}`);
+  }
+
+  const windowFailureThreshold = definition.windowFailureThreshold ?? Math.ceil(windowSize / 2);
+  if (!Number.isInteger(windowFailureThreshold) || windowFailureThreshold < 1 || windowFailureThreshold > windowSize) {
+    errors.push(`MONITORS[${definition.id}].windowFailureThreshold must be between 1 and windowSize`);
+  }
+
+  const windowRecoveryThreshold = definition.windowRecoveryThreshold ?? windowSize;
+  if (!Number.isInteger(windowRecoveryThreshold) || windowRecoveryThreshold < 1 || windowRecoveryThreshold > windowSize) {
+    errors.push(`MONITORS[${definition.id}].windowRecoveryThreshold must be between 1 and windowSize`);
+  }
+
+  // Validate flap detection settings
+  const minDwellSeconds = definition.minDwellSeconds ?? 0;
+  if (!Number.isInteger(minDwellSeconds) || minDwellSeconds < 0) {
+    errors.push(`MONITORS[${definition.id}].minDwellSeconds must be a non-negative integer`);
+  }
+
+  const maxTransitionsPerHour = definition.maxTransitionsPerHour ?? null;
+  if (maxTransitionsPerHour !== null && (!Number.isInteger(maxTransitionsPerHour) || maxTransitionsPerHour < 1)) {
+    errors.push(`MONITORS[${definition.id}].maxTransitionsPerHour must be a positive integer`);
+  }
+
+  // Validate drift reconciliation
+  const driftPolicy = definition.driftPolicy ?? defaults.driftPolicy;
+  if (definition.driftPolicy !== undefined && !DRIFT_POLICIES.includes(driftPolicy)) {
+    errors.push(`MONITORS[${definition.id}].driftPolicy must be one of: ${DRIFT_POLICIES.join(', ')}`);
+  }
+
+  const reconcileIntervalSeconds = definition.reconcileIntervalSeconds ?? defaults.reconcileIntervalSeconds;
+  if (definition.reconcileIntervalSeconds !== undefined &&
+      (!Number.isInteger(reconcileIntervalSeconds) || reconcileIntervalSeconds < 0)) {
+    errors.push(`MONITORS[${definition.id}].reconcileIntervalSeconds must be a non-negative integer`);
+  }
+
+  const dryRun = definition.dryRun ?? defaults.dryRun;
+  if (typeof dryRun !== 'boolean') {
+    errors.push(`MONITORS[${definition.id}].dryRun must be a boolean`);
+  }
+
+  // Validate failover target and origin probe
+  const failoverTargetUrl = definition.failoverTargetUrl ?? null;
+  if (failoverTargetUrl !== null) {
+    try {
+      new URL(failoverTargetUrl);
+    } catch {
+      errors.push(`MONITORS[${definition.id}].failoverTargetUrl must be a valid URL`);
+    }
+  }
+
+  const originProbe = definition.originProbe ?? null;
+  if (originProbe !== null && (typeof originProbe.address !== 'string' || !ORIGIN_ADDRESS_PATTERN.test(originProbe.address))) {
+    errors.push(
+      `MONITORS[${definition.id}].originProbe.address must be a hostname in the monitor's zone; ` +
+      'an IP address cannot be probed, as Workers cannot send the site\'s Host header or SNI to it'
+    );
+  }
+
+  // Validate certificate expiry monitoring (opt-in). The public hostname is never a default
+  // host: sockets cannot reach Cloudflare IPs, and would only see the edge certificate.
+  let certificate: CertificateConfig | null = null;
+  const certificateDefinition = definition.certificate;
+  if (certificateDefinition && certificateDefinition.enabled !== false && definition.monitorUrl && URL.canParse(definition.monitorUrl)) {
+    const url = new URL(definition.monitorUrl);
+    const host = certificateDefinition.host ?? originProbe?.address;
+    if (!host) {
+      errors.push(`MONITORS[${definition.id}].certificate.host is required without originProbe`);
+    }
+    certificate = {
+      host: host ?? '',
+      port: certificateDefinition.port ?? (url.port ? Number(url.port) : 443),
+      serverName: url.hostname,
+      warnDays: certificateDefinition.warnDays ?? defaults.certificateWarnDays,
+    };
+    if (!Number.isInteger(certificate.port) || certificate.port < 1 || certificate.port > 65535) {
+      errors.push(`MONITORS[${definition.id}].certificate.port must be between 1 and 65535`);
+    }
+    if (certificateDefinition.warnDays !== undefined && !isValidWarnDays(certificateDefinition.warnDays)) {
+      errors.push(`MONITORS[${definition.id}].certificate.warnDays must be an array of positive integers`);
+    }
+  }
+
+  // Without a ruleset ID, redirectRuleId is treated as a whole ruleset (legacy)
+  const rulesetId = definition.rulesetId || defaults.rulesetId || null;
+
+  // Validate failover tiers. Without failoverTiers the monitor has a single
+  // tier built from redirectRuleId (or action), failoverTargetUrl and backupCheck.
+  const tiers: FailoverTierConfig[] = [];
+  if (definition.failoverTiers === undefined) {
+    tiers.push({
+      name: DEFAULT_TIER_NAME,
+      action: validateAction(
+        `MONITORS[${definition.id}].action`,
+        definition.action,
+        definition.redirectRuleId,
+        rulesetId,
+        env,
+        errors
+      ),
+      targetUrl: failoverTargetUrl,
+      backupCheck: validateBackupCheck(
+        `MONITORS[${definition.id}].backupCheck`,
+        definition.backupCheck,
+        failoverTargetUrl,
+        env,
+        errors
+      ),
+    });
+  } else if (!Array.isArray(definition.failoverTiers) || definition.failoverTiers.length === 0) {
+    errors.push(`MONITORS[${definition.id}].failoverTiers must be a non-empty array`);
+  } else {
+    for (const tier of definition.failoverTiers) {
+      const prefix = `MONITORS[${definition.id}].failoverTiers[${tier?.name}]`;
+      if (!tier || typeof tier.name !== 'string' || !MONITOR_ID_PATTERN.test(tier.name)) {
+        errors.push(`MONITORS[${definition.id}].failoverTiers entries need a name containing only letters, digits, "-" and "_"`);
+        continue;
+      }
+      if (tiers.some(existing => existing.name === tier.name)) {
+        errors.push(`${prefix} is listed more than once`);
+      }
+      if (!tier.redirectRuleId && tier.action === undefined) {
+        errors.push(`${prefix}.redirectRuleId or ${prefix}.action is required`);
+      }
+      if (tier.targetUrl !== undefined && !URL.canParse(tier.targetUrl)) {
+        errors.push(`${prefix}.targetUrl must be a valid URL`);
+      }
+      tiers.push({
+        name: tier.name,
+        action: validateAction(`${prefix}.action`, tier.action, tier.redirectRuleId, tier.rulesetId || rulesetId, env, errors),
+        targetUrl: tier.targetUrl ?? null,
+        backupCheck: validateBackupCheck(`${prefix}.backupCheck`, tier.backupCheck, tier.targetUrl ?? null, env, errors),
+      });
+    }
+  }
+
+  // While failed over, checks of the public URL only see our own redirect and are not
+  // counted, so recovery could never be detected without probing the origin
+  if ((definition.probe?.type ?? 'http') === 'http' && originProbe === null && tiers.some(tier => tier.targetUrl !== null)) {
+    errors.push(`MONITORS[${definition.id}].originProbe is required when a failover target URL is set, so recovery can be detected while failed over`);
+  }
+
+  // Toggling every rule of a ruleset is kept only for existing single-monitor deployments;
+  // registry monitors are new and must name the ruleset
+  if (!legacy) {
+    for (const tier of tiers) {
+      if (tier.action.type === 'redirect-rule' && tier.action.redirectRuleId && !tier.action.rulesetId) {
+        errors.push(`MONITORS[${definition.id}].rulesetId (or RULESET_ID) is required for the redirect rule of tier "${tier.name}"`);
+      }
+    }
+  }
+
+  // Validate confirmation re-probe
+  const confirmation = definition.confirmation ?? null;
+  if (confirmation !== null) {
+    if (!Number.isInteger(confirmation.delayMs) || confirmation.delayMs < 0 || confirmation.delayMs > 10000) {
+      errors.push(`MONITORS[${definition.id}].confirmation.delayMs must be between 0 and 10000`);
+    }
+    if (confirmation.url !== undefined) {
+      try {
+        new URL(confirmation.url);
+      } catch {
+        errors.push(`MONITORS[${definition.id}].confirmation.url must be a valid URL`);
+      }
+    }
+    // Workers fetch sends the URL's own host, so a Host override would silently do nothing
+    if ((confirmation as { hostHeader?: unknown }).hostHeader !== undefined) {
+      errors.push(
+        `MONITORS[${definition.id}].confirmation.hostHeader is not supported, as Workers cannot override the Host header; ` +
+        'set confirmation.url to a hostname that serves the site instead'
+      );
+    }
+  }
+
+  // Validate post-transition verification
+  let verification: VerificationConfig | null = null;
+  const verificationDefinition = definition.verification ?? {};
+  if (verificationDefinition.enabled !== false) {
+    verification = {
+      delayMs: verificationDefinition.delayMs ?? DEFAULT_VERIFICATION_DELAY_MS,
+      attempts: verificationDefinition.attempts ?? DEFAULT_VERIFICATION_ATTEMPTS,
+    };
+    if (!Number.isInteger(verification.delayMs) || verification.delayMs < 0 || verification.delayMs > 30000) {
+      errors.push(`MONITORS[${definition.id}].verification.delayMs must be between 0 and 30000`);
+    }
+    if (!Number.isInteger(verification.attempts) || verification.attempts < 1 || verification.attempts > 5) {
+      errors.push(`MONITORS[${definition.id}].verification.attempts must be between 1 and 5`);
+    }
+  }
+
+  return {
+    id: legacy ? DEFAULT_MONITOR_ID : definition.id,
+    monitorUrl: definition.monitorUrl,
+    zoneId: zoneId as string,
+    failureCountThreshold,
+    recoveryCountThreshold,
+    timeoutSeconds,
+    checkIntervalSeconds,
+    slowThresholdMs,
+    slowCheckMode,
+    triggerMode,
+    windowSize,
+    windowFailureThreshold,
+    windowRecoveryThreshold,
+    minDwellSeconds,
+    maxTransitionsPerHour,
+    driftPolicy,
+    reconcileIntervalSeconds,
+    dryRun,
+    confirmation,
+    verification,
+    originProbe,
+    certificate,
+    tiers,
+    probe: validateProbe(`MONITORS[${definition.id}].probe`, definition.probe, env, errors),
+    assertions: validateAssertions(`MONITORS[${definition.id}].assertions`, definition.assertions, errors),
+  };
+}
+
+function validateBackupCheck(
+  prefix: string,
+  definition: BackupCheckDefinition | undefined,
+  targetUrl: string | null,
+  env: Env,
+  errors: string[]
+): BackupCheckConfig | null {
+  if (definition?.enabled === false) {
+    return null;
+  }
+
+  const backupCheck: BackupCheckConfig = {
+    url: definition?.url ?? targetUrl,
+    onUnhealthy: definition?.onUnhealthy ?? 'defer',
+    probe: validateProbe(`${prefix}.probe`, undefined, env, errors),
+    assertions: validateAssertions(`${prefix}.assertions`, definition?.assertions ?? { statusCodes: ['2xx'] }, errors),
+  };
+  if (definition?.url !== undefined && !URL.canParse(definition.url)) {
+    errors.push(`${prefix}.url must be a valid URL`);
+  }
+  if (!BACKUP_UNHEALTHY_ACTIONS.includes(backupCheck.onUnhealthy)) {
+    errors.push(`${prefix}.onUnhealthy must be one of: ${BACKUP_UNHEALTHY_ACTIONS.join(', ')}`);
+  }
+  return backupCheck;
+}
+
+function isValidWarnDays(warnDays: unknown): boolean {
+  return Array.isArray(warnDays) && warnDays.every(days => Number.isInteger(days) && days > 0);
+}
+
+// A tier's failover action; without an action definition, its redirect rule,
+// which may be missing until it is provisioned through the API
+function validateAction(
+  prefix: string,
+  action: FailoverActionDefinition | undefined,
+  redirectRuleId: string | undefined,
+  rulesetId: string | null,
+  env: Env,
+  errors: string[]
+): FailoverActionConfig {
+  if (action === undefined) {
+    return { type: 'redirect-rule', redirectRuleId: redirectRuleId || null, rulesetId };
+  }
+  if (!action || typeof action !== 'object') {
+    errors.push(`${prefix} must be an object`);
+    return { type: 'redirect-rule', redirectRuleId: redirectRuleId || null, rulesetId };
+  }
+
+  const required = (...names: (keyof FailoverActionDefinition)[]) => {
+    for (const name of names) {
+      if (typeof action[name] !== 'string' || action[name] === '') {
+        errors.push(`${prefix}.${name} is required for type "${action.type}"`);
+      }
+    }
   };
+
+  switch (action.type) {
+    case 'redirect-rule':
+      required('redirectRuleId');
+      return {
+        type: 'redirect-rule',
+        redirectRuleId: action.redirectRuleId as string,
+        rulesetId: action.rulesetId || rulesetId,
+      };
+    case 'dns-record':
+      required('recordId', 'primaryContent', 'failoverContent');
+      return {
+        type: 'dns-record',
+        recordId: action.recordId as string,
+        primaryContent: action.primaryContent as string,
+        failoverContent: action.failoverContent as string,
+      };
+    case 'load-balancer-pool':
+      required('poolId');
+      return {
+        type: 'load-balancer-pool',
+        poolId: action.poolId as string,
+        originName: action.originName ?? null,
+      };
+    case 'http': {
+      if (!action.url || !URL.canParse(action.url)) {
+        errors.push(`${prefix}.url must be a valid URL`);
+      }
+      const method = (action.method ?? 'POST').toUpperCase();
+      if (!HTTP_ACTION_METHODS.includes(method)) {
+        errors.push(`${prefix}.method must be one of: ${HTTP_ACTION_METHODS.join(', ')}`);
+      }
+      return {
+        type: 'http',
+        url: action.url as string,
+        method,
+        headers: resolveHeaders(`${prefix}.headers`, action.headers, env, errors),
+      };
+    }
+    case 'fallback-page':
+      return { type: 'fallback-page' };
+    case 'proxy': {
+      if (!action.backupOrigin || !URL.canParse(action.backupOrigin) || !/^https?:$/.test(new URL(action.backupOrigin).protocol)) {
+        errors.push(`${prefix}.backupOrigin must be an http or https URL`);
+      }
+      const timeoutMs = action.timeoutMs ?? DEFAULT_PROXY_TIMEOUT_MS;
+      if (!Number.isInteger(timeoutMs) || timeoutMs < 100 || timeoutMs > 30000) {
+        errors.push(`${prefix}.timeoutMs must be an integer between 100 and 30000`);
+      }
+      if (action.fallbackOnError !== undefined && typeof action.fallbackOnError !== 'boolean') {
+        errors.push(`${prefix}.fallbackOnError must be a boolean`);
+      }
+      return {
+        type: 'proxy',
+        backupOrigin: action.backupOrigin as string,
+        timeoutMs,
+        fallbackOnError: action.fallbackOnError !== false,
+      };
+    }
+    default:
+      errors.push(`${prefix}.type must be one of: ${FAILOVER_ACTION_TYPES.join(', ')}`);
+      return { type: 'redirect-rule', redirectRuleId: redirectRuleId || null, rulesetId };
+  }
+}
+
+// Replace ${NAME} in header values with the environment variable or secret of that name
+function resolveHeaders(
+  prefix: string,
+  headers: Record<string, string> | undefined,
+  env: Env,
+  errors: string[]
+): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (typeof value !== 'string') {
+      errors.push(`${prefix}.${name} must be a string`);
+      continue;
+    }
+    resolved[name] = value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, variable: string) => {
+      const secret = (env as unknown as Record<string, unknown>)[variable];
+      if (typeof secret !== 'string') {
+        errors.push(`${prefix}.${name} references ${variable}, which is not set`);
+        return '';
+      }
+      return secret;
+    });
+  }
+  return resolved;
+}
+
+function validateProbe(
+  prefix: string,
+  probe: ProbeDefinition | undefined,
+  env: Env,
+  errors: string[]
+): ProbeConfig {
+  const config: ProbeConfig = {
+    type: 'http',
+    method: 'GET',
+    headers: { 'User-Agent': DEFAULT_USER_AGENT },
+    body: null,
+    redirect: 'follow',
+    expectedFinalUrl: null,
+    host: null,
+    port: null,
+    banner: null,
+    dnsName: null,
+    recordType: 'A',
+    expectedAnswers: [],
+    resolverUrl: DEFAULT_DOH_RESOLVER_URL,
+  };
+  if (probe === undefined) {
+    return config;
+  }
+  if (!probe || typeof probe !== 'object') {
+    errors.push(`${prefix} must be an object`);
+    return config;
+  }
+
+  config.type = probe.type ?? 'http';
+  if (!PROBE_TYPES.includes(config.type)) {
+    errors.push(`${prefix}.type must be one of: ${PROBE_TYPES.join(', ')}`);
+  }
+
+  config.method = (probe.method ?? 'GET').toUpperCase();
+  if (!PROBE_METHODS.includes(config.method)) {
+    errors.push(`${prefix}.method must be one of: ${PROBE_METHODS.join(', ')}`);
+  }
+
+  Object.assign(config.headers, resolveHeaders(`${prefix}.headers`, probe.headers, env, errors));
+  // Workers fetch sends the URL's own host, so a Host override would silently do nothing
+  if (Object.keys(config.headers).some(h => h.toLowerCase() === 'host')) {
+    errors.push(`${prefix}.headers.Host is not supported, as Workers cannot override the Host header; probe a URL on that hostname instead`);
+  }
+
+  if (probe.body !== undefined) {
+    if (config.method === 'GET' || config.method === 'HEAD') {
+      errors.push(`${prefix}.body is not allowed with method ${config.method}`);
+    }
+    if (typeof probe.body === 'string') {
+      config.body = probe.body;
+    } else {
+      config.body = JSON.stringify(probe.body);
+      const hasContentType = Object.keys(config.headers).some(h => h.toLowerCase() === 'content-type');
+      if (!hasContentType) {
+        config.headers['Content-Type'] = 'application/json';
+      }
+    }
+  }
+
+  config.redirect = probe.redirect ?? 'follow';
+  if (config.redirect !== 'manual' && config.redirect !== 'follow') {
+    errors.push(`${prefix}.redirect must be one of: manual, follow`);
+  }
+
+  if (probe.expectedFinalUrl !== undefined) {
+    try {
+      config.expectedFinalUrl = new URL(probe.expectedFinalUrl).href;
+    } catch {
+      errors.push(`${prefix}.expectedFinalUrl must be a valid URL`);
+    }
+    if (config.redirect !== 'follow') {
+      errors.push(`${prefix}.expectedFinalUrl requires redirect "follow"`);
+    }
+  }
+
+  // TCP connect and TLS handshake
+  if (probe.host !== undefined) {
+    if (typeof probe.host !== 'string' || !probe.host) {
+      errors.push(`${prefix}.host must be a non-empty string`);
+    } else {
+      config.host = probe.host;
+    }
+  }
+
+  config.port = probe.port ?? (config.type === 'tls' ? 443 : null);
+  if (config.port === null) {
+    if (config.type === 'tcp') {
+      errors.push(`${prefix}.port is required for tcp probes`);
+    }
+  } else if (!Number.isInteger(config.port) || config.port < 1 || config.port > 65535) {
+    errors.push(`${prefix}.port must be between 1 and 65535`);
+  }
+
+  if (probe.banner !== undefined) {
+    if (config.type !== 'tcp' && config.type !== 'tls') {
+      errors.push(`${prefix}.banner is only supported for tcp and tls probes`);
+    }
+    try {
+      new RegExp(probe.banner);
+      config.banner = probe.banner;
+    } catch {
+      errors.push(`${prefix}.banner must be a valid regular expression`);
+    }
+  }
+
+  // DNS-over-HTTPS lookup
+  if (probe.dnsName !== undefined) {
+    if (typeof probe.dnsName !== 'string' || !probe.dnsName) {
+      errors.push(`${prefix}.dnsName must be a non-empty string`);
+    } else {
+      config.dnsName = probe.dnsName;
+    }
+  }
+
+  config.recordType = probe.recordType ?? 'A';
+  if (!DNS_RECORD_TYPES.includes(config.recordType)) {
+    errors.push(`${prefix}.recordType must be one of: ${DNS_RECORD_TYPES.join(', ')}`);
+  }
+
+  if (probe.expectedAnswers !== undefined) {
+    if (!Array.isArray(probe.expectedAnswers) || probe.expectedAnswers.some(answer => typeof answer !== 'string')) {
+      errors.push(`${prefix}.expectedAnswers must be an array of strings`);
+    } else {
+      config.expectedAnswers = probe.expectedAnswers;
+    }
+  }
+
+  if (probe.resolverUrl !== undefined) {
+    try {
+      const resolverUrl = new URL(probe.resolverUrl);
+      if (resolverUrl.protocol !== 'https:') {
+        errors.push(`${prefix}.resolverUrl must be an HTTPS URL`);
+      }
+      config.resolverUrl = resolverUrl.href;
+    } catch {
+      errors.push(`${prefix}.resolverUrl must be a valid URL`);
+    }
+  }
+
+  return config;
+}
+
+function validateAssertions(
+  prefix: string,
+  assertions: HealthCheckAssertions | undefined,
+  errors: string[]
+): HealthCheckAssertions {
+  if (assertions === undefined) {
+    return {};
+  }
+  if (!assertions || typeof assertions !== 'object') {
+    errors.push(`${prefix} must be an object`);
+    return {};
+  }
+
+  for (const code of assertions.statusCodes ?? []) {
+    const valid = typeof code === 'number'
+      ? Number.isInteger(code) && code >= 100 && code <= 599
+      : /^(\d{3}|[1-5]xx|\d{3}-\d{3})$/i.test(code);
+    if (!valid) {
+      errors.push(`${prefix}.statusCodes entry "${code}" must be a status code, a range like "200-299" or a class like "2xx"`);
+    }
+  }
+
+  for (const key of ['bodyContains', 'bodyNotContains', 'bodyMatches', 'bodyNotMatches'] as const) {
+    const values = assertions[key];
+    if (values !== undefined && (!Array.isArray(values) || values.some(v => typeof v !== 'string'))) {
+      errors.push(`${prefix}.${key} must be an array of strings`);
+    }
+  }
+
+  for (const pattern of [...(assertions.bodyMatches ?? []), ...(assertions.bodyNotMatches ?? [])]) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      errors.push(`${prefix} contains an invalid regular expression: ${pattern}`);
+    }
+  }
+
+  for (const assertion of assertions.jsonPath ?? []) {
+    if (typeof assertion.path !== 'string' || parseJsonPath(assertion.path) === null) {
+      errors.push(`${prefix}.jsonPath has an invalid path: ${assertion.path}`);
+    }
+    if (assertion.equals === undefined) {
+      errors.push(`${prefix}.jsonPath entry ${assertion.path} requires an "equals" value`);
+    }
+  }
+
+  for (const header of assertions.requiredHeaders ?? []) {
+    if (!header.name || typeof header.name !== 'string') {
+      errors.push(`${prefix}.requiredHeaders entries require a name`);
+    }
+  }
+
+  return assertions;
 }
@@ -0,0 +1,99 @@
+import type { FailoverTierConfig, MonitorConfig, RedirectRuleHistoryEntry, TransitionVerification } from './types';
+import { Logger } from './logger';
+import { StateManager } from './state-manager';
+import { detectOwnRedirect } from './health-check';
+
+interface VerificationResult {
+  statusCode: number | null;
+  location: string | null;
+  failureReason: string | null;
+}
+
+// After a transition, request the public URL without following redirects and check that
+// visitors are sent to the tier's target (or, after recovery, no longer redirected).
+// The result is stored with the history entry the transition created.
+export async function verifyTransition(
+  monitor: MonitorConfig,
+  stateManager: StateManager,
+  logger: Logger,
+  entry: RedirectRuleHistoryEntry,
+  tier: FailoverTierConfig,
+  active: boolean
+): Promise<void> {
+  // Only redirect rules change what the public URL answers; in dry-run mode nothing changed
+  if (!monitor.verification || monitor.dryRun || tier.action.type !== 'redirect-rule') {
+    return;
+  }
+
+  let result: VerificationResult = { statusCode: null, location: null, failureReason: null };
+  let attempts = 0;
+  while (attempts < monitor.verification.attempts) {
+    attempts++;
+    await new Promise(resolve => setTimeout(resolve, monitor.verification!.delayMs));
+    result = await requestPublicUrl(monitor, tier, active);
+    if (!result.failureReason) {
+      break;
+    }
+    logger.debug(`[${monitor.id}] Verification attempt ${attempts} failed`, { reason: result.failureReason });
+  }
+
+  const verification: TransitionVerification = {
+    verifiedAt: new Date().toISOString(),
+    passed: result.failureReason === null,
+    attempts,
+    ...result,
+  };
+  if (verification.passed) {
+    logger.info(`[${monitor.id}] Verified that tier "${tier.name}" is ${active ? 'redirecting visitors' : 'no longer redirecting'}`);
+  } else {
+    logger.error(
+      `[${monitor.id}] Critical: ${active ? 'activation' : 'deactivation'} of tier "${tier.name}" did not take effect on ${monitor.monitorUrl}`,
+      { reason: verification.failureReason, attempts }
+    );
+  }
+  await stateManager.recordVerification(entry.timestamp, verification);
+}
+
+async function requestPublicUrl(
+  monitor: MonitorConfig,
+  tier: FailoverTierConfig,
+  active: boolean
+): Promise<VerificationResult> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), monitor.timeoutSeconds * 1000);
+  try {
+    const response = await fetch(monitor.monitorUrl, {
+      method: 'GET',
+      headers: { ...monitor.probe.headers, 'Cache-Control': 'no-cache' },
+      redirect: 'manual',
+      signal: controller.signal,
+    });
+    const location = response.headers.get('Location');
+    const redirected = response.status >= 300 && response.status < 400 && location !== null;
+    const result: VerificationResult = { statusCode: response.status, location, failureReason: null };
+
+    if (active) {
+      if (!redirected) {
+        result.failureReason = `Expected a redirect, got HTTP ${response.status}`;
+      } else if (tier.targetUrl && !detectOwnRedirect(response, monitor.monitorUrl, [tier.targetUrl])) {
+        result.failureReason = `Redirect goes to ${location} instead of ${tier.targetUrl}`;
+      }
+      return result;
+    }
+
+    // Without known targets, any redirect may still be the failover rule
+    const targetUrls = monitor.tiers.flatMap(candidate => candidate.targetUrl ?? []);
+    if (targetUrls.length > 0 ? detectOwnRedirect(response, monitor.monitorUrl, targetUrls) : redirected) {
+      result.failureReason = `Still redirecting to ${location} (HTTP ${response.status})`;
+    }
+    return result;
+  } catch (error: any) {
+    return {
+      statusCode: null,
+      location: null,
+      failureReason: error.name === 'AbortError' ? `Timed out after ${monitor.timeoutSeconds}s` : error.message,
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}